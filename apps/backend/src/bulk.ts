@@ -0,0 +1,44 @@
+import { MAX_BULK_USERS, type BulkItemResult, type BulkResult, type FilterMatch } from "shared";
+import type { Store, UserFilterClause, UserSort } from "./store";
+import { ApiError } from "./errors";
+
+// A parsed bulk-action body: listed ids, or every user a list query matches.
+// Either way `exclude` is taken out.
+export type UserSelection = {
+  ids?: number[];
+  matching?: { search: string; filter: UserFilterClause[]; match: FilterMatch };
+  exclude: number[];
+};
+
+const BY_ID: UserSort = [{ by: "id", dir: "ASC" }];
+const BATCH_SIZE = 1000;
+
+// The selected ids in ascending order. Query selections are resolved up
+// front, so the action can't disturb the scan, and refused past the limit.
+export async function resolveUserSelection(store: Store, selection: UserSelection): Promise<number[]> {
+  const exclude = new Set(selection.exclude);
+  if (selection.ids) {
+    return [...new Set(selection.ids)].filter((id) => !exclude.has(id)).sort((a, b) => a - b);
+  }
+
+  const { search, filter, match } = selection.matching!;
+  const ids: number[] = [];
+  let after: { keys: number[]; id: number } | null = null;
+  for (;;) {
+    const batch = await store.scanUsers({ search, filter: { match, clauses: filter }, sort: BY_ID, after, limit: BATCH_SIZE });
+    for (const row of batch) {
+      if (!exclude.has(row.id)) ids.push(row.id);
+    }
+    if (ids.length > MAX_BULK_USERS) {
+      throw ApiError.unprocessable(`Selection matches more than ${MAX_BULK_USERS} users; narrow the filter`);
+    }
+    if (batch.length < BATCH_SIZE) return ids;
+    const last = batch[batch.length - 1].id;
+    after = { keys: [last], id: last };
+  }
+}
+
+export function bulkResult(results: BulkItemResult[]): BulkResult {
+  const succeeded = results.filter((r) => r.status === "ok").length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
@@ -0,0 +1,65 @@
+import type { CursorPosition, SortDir } from "./store";
+
+export type CursorSort = { by: string; dir: SortDir }[];
+
+// Opaque keyset cursor handed to clients as base64url JSON. It carries the sort
+// it was issued for (one key value per term), so a page request only needs
+// `cursor` to continue.
+export type Cursor = CursorPosition & {
+  sort: CursorSort;
+};
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+const isKey = (k: unknown) => typeof k === "string" || (typeof k === "number" && Number.isFinite(k));
+
+function isTerm(t: unknown): t is CursorSort[number] {
+  const term = t as { by?: unknown; dir?: unknown } | null;
+  return !!term && typeof term.by === "string" && (term.dir === "ASC" || term.dir === "DESC");
+}
+
+// Returns null for anything that isn't a cursor we issued
+export function decodeCursor(raw: string): Cursor | null {
+  try {
+    const c = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!c || typeof c !== "object") return null;
+    if (
+      !Array.isArray(c.sort) ||
+      c.sort.length === 0 ||
+      !c.sort.every(isTerm) ||
+      !Array.isArray(c.keys) ||
+      c.keys.length !== c.sort.length ||
+      !c.keys.every(isKey) ||
+      !Number.isInteger(c.id) ||
+      (c.direction !== "after" && c.direction !== "before")
+    ) {
+      return null;
+    }
+    const sort: CursorSort = c.sort.map((t: CursorSort[number]) => ({ by: t.by, dir: t.dir }));
+    return { sort, keys: c.keys, id: c.id, direction: c.direction };
+  } catch {
+    return null;
+  }
+}
+
+// next/prev cursors for a page, pointing just past its last / before its first row
+export function pageCursors<T extends { id: number }>(
+  page: { items: T[]; hasNext: boolean; hasPrev: boolean },
+  sort: CursorSort,
+  keysOf: (row: T) => (string | number)[]
+): { nextCursor: string | null; prevCursor: string | null } {
+  const first = page.items[0];
+  const last = page.items[page.items.length - 1];
+  return {
+    nextCursor:
+      page.hasNext && last
+        ? encodeCursor({ sort, keys: keysOf(last), id: last.id, direction: "after" })
+        : null,
+    prevCursor:
+      page.hasPrev && first
+        ? encodeCursor({ sort, keys: keysOf(first), id: first.id, direction: "before" })
+        : null,
+  };
+}
@@ -1,20 +1,10 @@
-// In-memory data store and utilities
-export type User = { id: number; name: string; email: string; createdAt: string };
-export type Product = { id: number; name: string; price: number };
-export type Order = { id: number; userId: number; productId: number; amount: number; createdAt: string };
+// Seed data generation; the domain types themselves live in the shared package
+import { MAX_SEED_NODES, type Node, type Order, type Product, type TreeShape, type User } from "shared";
 
-export type Node = { 
-  id: string; 
-  parentId: string | null; 
-  name: string; 
-  hasChildren: boolean 
-};
-
-export const db = {
-  users: [] as User[],
-  products: [] as Product[],
-  orders: [] as Order[],
-  nodes: [] as Node[],
+export type SeedData = {
+  users: User[];
+  products: Product[];
+  orders: Order[];
 };
 
 // Deterministic PRNG (mulberry32)
@@ -28,102 +18,118 @@ function mulberry32(seed: number): () => number {
   };
 }
 
-export function seedInMemory({ users, products, orders }: { users: number; products: number; orders: number }): { users: number; products: number; orders: number } {
-  const rng = mulberry32(123456789);
-  db.users.length = 0;
-  db.products.length = 0;
-  db.orders.length = 0;
+// Generated dates fall in the year before this rather than before now, so a
+// seed gives the same dataset on any day
+const SEED_EPOCH = Date.UTC(2026, 0, 1);
+const YEAR_MS = 365 * 24 * 3600 * 1000;
+
+// Builds the users/products/orders dataset; the active store persists it
+export function generateSeedData({ users, products, orders, seed }: { users: number; products: number; orders: number; seed: number }): SeedData {
+  const rng = mulberry32(seed);
+  const data: SeedData = { users: [], products: [], orders: [] };
 
   for (let i = 0; i < products; i++) {
-    db.products.push({ id: i + 1, name: `Product ${i + 1}`, price: Number((rng() * 1000 + 1).toFixed(2)) });
+    data.products.push({ id: i + 1, name: `Product ${i + 1}`, price: Number((rng() * 1000 + 1).toFixed(2)) });
   }
   for (let i = 0; i < users; i++) {
-    const createdAt = new Date(Date.now() - Math.floor(rng() * 365 * 24 * 3600 * 1000)).toISOString();
-    db.users.push({ id: i + 1, name: `User ${i + 1}`, email: `user${i + 1}@example.com`, createdAt });
+    const createdAt = new Date(SEED_EPOCH - Math.floor(rng() * YEAR_MS)).toISOString();
+    data.users.push({ id: i + 1, name: `User ${i + 1}`, email: `user${i + 1}@example.com`, createdAt });
   }
   for (let i = 0; i < orders; i++) {
     const userId = Math.floor(rng() * users) + 1;
     const productId = Math.floor(rng() * products) + 1;
     const amount = Number((rng() * 5 + 1).toFixed(2));
-    const createdAt = new Date(Date.now() - Math.floor(rng() * 365 * 24 * 3600 * 1000)).toISOString();
-    db.orders.push({ id: i + 1, userId, productId, amount, createdAt });
+    const createdAt = new Date(SEED_EPOCH - Math.floor(rng() * YEAR_MS)).toISOString();
+    data.orders.push({ id: i + 1, userId, productId, amount, createdAt });
+  }
+  return data;
+}
+
+export type TreeOptions = {
+  breadth: number;
+  depth: number;
+  shape: TreeShape;
+  // Stop after this many nodes; the last level filled is then partial
+  nodes?: number;
+  seed: number;
+};
+
+// Children of a node at `level` (0 is above the roots, so its children are
+// the roots) that is child number `index` of its parent
+type ShapeWidth = (level: number, index: number, rng: () => number) => number;
+
+function shapeWidth({ breadth, depth, shape }: TreeOptions): ShapeWidth {
+  switch (shape) {
+    case "random": {
+      // Narrower further down; 70% of nodes above `depth` have children
+      const levelBreadth = (level: number) => Math.min(breadth, Math.floor(breadth * (1 - level / depth)) + 1);
+      return (level, _index, rng) => {
+        if (level === 0) return levelBreadth(1);
+        return level < depth && rng() > 0.3 ? levelBreadth(level + 1) : 0;
+      };
+    }
+    case "balanced":
+      return (level) => (level < depth ? breadth : 0);
+    case "chain":
+      // `breadth` chains, `depth` long
+      return (level) => (level === 0 ? breadth : level < depth ? 1 : 0);
+    case "wide":
+      // As many nodes as `balanced` would put at the bottom, all right under the roots
+      return (level) => (level === 0 ? breadth : level === 1 && depth > 1 ? breadth ** (depth - 1) : 0);
+    case "skewed":
+      // Child i gets breadth/(i+1) children, so the first branches dwarf the rest
+      return (level, index) => (level === 0 ? breadth : level < depth ? Math.floor(breadth / (index + 1)) : 0);
   }
-  return { users: db.users.length, products: db.products.length, orders: db.orders.length };
 }
 
-// Tree generation for org chart/file explorer
-export function generateTree(breadth: number, depth: number): { nodes: number } {
-  const rng = mulberry32(123456789);
-  db.nodes.length = 0;
-  
+// Tree generation for org chart/file explorer. Ids spell the path from the
+// root (`root1-2-3`), and the same options always give the same tree. Built a
+// level at a time so a `nodes` target trims the bottom rather than a branch,
+// then listed depth first (tree order).
+export function generateTree(options: TreeOptions, seededNames: string[] = []): Node[] {
+  const rng = mulberry32(options.seed);
+  const width = shapeWidth(options);
+  const limit = Math.min(options.nodes ?? MAX_SEED_NODES, MAX_SEED_NODES);
+
   // Prefer seeded user names; fallback to a small static list if empty
-  const userNames = db.users.length
-    ? db.users.map(u => u.name)
+  const userNames = seededNames.length
+    ? seededNames
     : [
         'Alice Johnson', 'Bob Smith', 'Carol Williams', 'David Brown', 'Eva Davis',
         'Frank Miller', 'Grace Wilson', 'Henry Moore', 'Ivy Taylor', 'Jack Anderson',
         'Karen Thomas', 'Leo Jackson', 'Mia White', 'Noah Harris', 'Olivia Martin',
         'Paul Thompson', 'Quinn Garcia', 'Ruby Martinez', 'Sam Robinson', 'Tina Clark'
       ];
-  
-  function generateNode(parentId: string | null, currentDepth: number, nodeId: string): Node {
-    const name = userNames[Math.floor(rng() * userNames.length)];
-    const hasChildren = currentDepth < depth && Math.random() > 0.3; // 70% chance of having children
-    
-    return {
-      id: nodeId,
-      parentId,
-      name: `${name} ${nodeId}`,
-      hasChildren
-    };
-  }
-  
-  function generateLevel(parentId: string | null, currentDepth: number, prefix: string): void {
-    if (currentDepth > depth) return;
-    
-    const levelBreadth = Math.min(breadth, Math.floor(breadth * (1 - currentDepth / depth)) + 1);
-    
-    for (let i = 0; i < levelBreadth; i++) {
-      const nodeId = `${prefix}${i + 1}`;
-      const node = generateNode(parentId, currentDepth, nodeId);
-      db.nodes.push(node);
-      
-      if (node.hasChildren) {
-        generateLevel(nodeId, currentDepth + 1, `${nodeId}-`);
-      }
+
+  type Pending = { node: Node | null; level: number; index: number };
+  const children = new Map<string | null, Node[]>();
+  const queue: Pending[] = [{ node: null, level: 0, index: 0 }];
+  let count = 0;
+
+  for (let head = 0; head < queue.length && count < limit; head++) {
+    const { node: parent, level, index } = queue[head];
+    const n = Math.min(width(level, index, rng), limit - count);
+    if (n === 0) continue;
+    const list: Node[] = [];
+    for (let i = 0; i < n; i++) {
+      const id = parent ? `${parent.id}-${i + 1}` : `root${i + 1}`;
+      const name = userNames[Math.floor(rng() * userNames.length)];
+      const node: Node = { id, parentId: parent?.id ?? null, name: `${name} ${id}`, hasChildren: false };
+      list.push(node);
+      queue.push({ node, level: level + 1, index: i });
     }
+    if (parent) parent.hasChildren = true;
+    children.set(parent?.id ?? null, list);
+    count += n;
   }
-  
-  // Generate root level
-  generateLevel(null, 1, 'root');
-  
-  return { nodes: db.nodes.length };
-}
 
-// Helper function to get node path (ancestors)
-export function getNodePath(nodeId: string): { id: string; name: string }[] {
-  const path: { id: string; name: string }[] = [];
-  let currentNode = db.nodes.find(n => n.id === nodeId);
-  
-  while (currentNode) {
-    path.unshift({ id: currentNode.id, name: currentNode.name });
-    if (currentNode.parentId) {
-      currentNode = db.nodes.find(n => n.id === currentNode!.parentId);
-    } else {
-      break;
-    }
+  const nodes: Node[] = [];
+  const stack = [...(children.get(null) ?? [])].reverse();
+  while (stack.length) {
+    const node = stack.pop()!;
+    nodes.push(node);
+    const below = children.get(node.id) ?? [];
+    for (let i = below.length - 1; i >= 0; i--) stack.push(below[i]);
   }
-  
-  return path;
+  return nodes;
 }
-
-export type UserRow = {
-  id: number;
-  name: string;
-  email: string;
-  createdAt: string;
-  orderCount: number;
-  orderTotal: number;
-};
-
-
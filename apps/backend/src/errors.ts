@@ -0,0 +1,71 @@
+import type { ErrorRequestHandler, RequestHandler } from "express";
+import type { ApiErrorResponse, FieldIssue } from "shared";
+
+export type { FieldIssue };
+
+// Thrown from handlers; rendered by errorHandler as
+// { error: { code, message, details? } } so every failure has one shape
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: FieldIssue[]
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  static badRequest(message: string, details?: FieldIssue[]) {
+    return new ApiError(400, "bad_request", message, details);
+  }
+
+  static notFound(message: string) {
+    return new ApiError(404, "not_found", message);
+  }
+
+  static conflict(message: string, details?: FieldIssue[]) {
+    return new ApiError(409, "conflict", message, details);
+  }
+
+  static preconditionFailed(message: string) {
+    return new ApiError(412, "precondition_failed", message);
+  }
+
+  static unprocessable(message: string, details?: FieldIssue[]) {
+    return new ApiError(422, "unprocessable_entity", message, details);
+  }
+}
+
+// Mounted after every route, so an unknown path gets the same JSON body as
+// any other 404 instead of Express's HTML page
+export const notFoundHandler: RequestHandler = (req) => {
+  throw ApiError.notFound(`No route for ${req.method} ${req.path}`);
+};
+
+export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) return next(err);
+
+  if (err instanceof ApiError) {
+    const body: ApiErrorResponse = {
+      error: {
+        code: err.code,
+        message: err.message,
+        ...(err.details && { details: err.details }),
+      },
+    };
+    return res.status(err.status).json(body);
+  }
+
+  // Malformed JSON rejected by express.json()
+  if (err && err.type === "entity.parse.failed") {
+    return res.status(400).json({
+      error: { code: "invalid_json", message: "Request body is not valid JSON" },
+    });
+  }
+
+  console.error(err);
+  res.status(500).json({
+    error: { code: "internal_error", message: "Internal server error" },
+  });
+};
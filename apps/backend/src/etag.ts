@@ -0,0 +1,25 @@
+import { createHash } from "crypto";
+import type { Request } from "express";
+import type { User } from "shared";
+import { ApiError } from "./errors";
+
+// Strong ETag over the user's own fields. Aggregates are left out so orders
+// placed meanwhile don't fail an edit of the name or email.
+export function userEtag(user: User): string {
+  const hash = createHash("sha1")
+    .update(JSON.stringify([user.id, user.name, user.email, user.createdAt]))
+    .digest("base64url");
+  return `"${hash}"`;
+}
+
+// Optimistic concurrency for writes: a request sent with If-Match only goes
+// through while the record still has one of the listed tags ("*" matches any).
+// Weak tags never match, as RFC 9110 requires for If-Match.
+export function assertIfMatch(req: Request, etag: string) {
+  const header = req.get("If-Match");
+  if (header === undefined || header.trim() === "*") return;
+  const tags = header.split(",").map((tag) => tag.trim());
+  if (!tags.includes(etag)) {
+    throw ApiError.preconditionFailed("The record was changed since it was read; reload it and try again");
+  }
+}
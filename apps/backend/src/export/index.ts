@@ -0,0 +1,131 @@
+import type { Writable } from "stream";
+import type { ExportFormat, UserRow } from "shared";
+import type { CursorPosition, Store, UserFilter, UserSort } from "../store";
+import { createXlsxWriter } from "./xlsx";
+
+// Streamed exports. A writer turns rows into bytes for one format; the export
+// loop pages through the store with a keyset scan and writes each batch as
+// soon as the client has room for it, so memory stays flat at any size.
+
+export type Cell = string | number;
+
+export type ExportWriter = {
+  contentType: string;
+  extension: string;
+  head(columns: readonly string[]): Buffer | string;
+  rows(rows: Cell[][]): Buffer | string;
+  tail(): Buffer | string;
+};
+
+const USER_COLUMNS = ["id", "name", "email", "createdAt", "orderCount", "orderTotal"] as const satisfies readonly (keyof UserRow)[];
+
+const BATCH_SIZE = 1000;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: Cell): string {
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (cells: readonly Cell[]) => `${cells.map(csvCell).join(",")}\r\n`;
+
+function createCsvWriter(): ExportWriter {
+  return {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    head: (columns) => csvLine(columns),
+    rows: (rows) => rows.map(csvLine).join(""),
+    tail: () => "",
+  };
+}
+
+// One JSON object per line, keyed by column
+function createNdjsonWriter(): ExportWriter {
+  let columns: readonly string[] = [];
+  return {
+    contentType: "application/x-ndjson",
+    extension: "ndjson",
+    head(names) {
+      columns = names;
+      return "";
+    },
+    rows: (rows) =>
+      rows.map((row) => `${JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, row[i]])))}\n`).join(""),
+    tail: () => "",
+  };
+}
+
+export function createExportWriter(format: ExportFormat): ExportWriter {
+  switch (format) {
+    case "csv":
+      return createCsvWriter();
+    case "ndjson":
+      return createNdjsonWriter();
+    case "xlsx":
+      return createXlsxWriter("Users");
+  }
+}
+
+// Resolves once the stream wants more data, or is gone
+function drained(out: Writable): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      out.off("drain", done);
+      out.off("close", done);
+      resolve();
+    };
+    out.on("drain", done);
+    out.on("close", done);
+  });
+}
+
+export type UserExportQuery = {
+  search: string;
+  filter: UserFilter;
+  sort: UserSort;
+  // Bulk exports of a selection: only these ids, or all but these
+  include?: ReadonlySet<number>;
+  exclude?: ReadonlySet<number>;
+};
+
+// Writes every matching user in list order, then ends `out`. Stops early if
+// the client goes away. An id list is read by id and sorted on its own; only
+// a search/filter selection walks the table.
+export async function writeUserExport(
+  out: Writable,
+  writer: ExportWriter,
+  store: Store,
+  { include, exclude, ...query }: UserExportQuery
+) {
+  const write = async (chunk: Buffer | string) => {
+    if (chunk.length === 0 || out.write(chunk)) return;
+    await drained(out);
+  };
+
+  const writeRows = async (rows: UserRow[]) => {
+    if (rows.length > 0) await write(writer.rows(rows.map((row) => USER_COLUMNS.map((c) => row[c]))));
+  };
+
+  await write(writer.head(USER_COLUMNS));
+
+  if (include) {
+    const rows = await store.getUsersByIds(include, query.sort);
+    for (let i = 0; i < rows.length && !out.destroyed; i += BATCH_SIZE) {
+      await writeRows(rows.slice(i, i + BATCH_SIZE));
+    }
+  } else {
+    let after: Omit<CursorPosition, "direction"> | null = null;
+    while (!out.destroyed) {
+      const batch = await store.scanUsers({ ...query, after, limit: BATCH_SIZE });
+      await writeRows(exclude ? batch.filter((row) => !exclude.has(row.id)) : batch);
+      if (batch.length < BATCH_SIZE) break;
+      const last = batch[batch.length - 1];
+      after = { keys: query.sort.map(({ by }) => last[by]), id: last.id };
+    }
+  }
+
+  if (!out.destroyed) out.end(writer.tail());
+}
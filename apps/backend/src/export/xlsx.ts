@@ -0,0 +1,194 @@
+import { constants, crc32, deflateRawSync } from "zlib";
+import type { Cell, ExportWriter } from "./index";
+
+// Minimal streaming XLSX: a zip holding one worksheet of inline strings and
+// numbers. Each batch of rows is deflated on its own and sync-flushed, so the
+// pieces concatenate into one valid deflate stream and the sheet never has to
+// be held in memory. Sizes are 32-bit (no zip64), far above Excel's row cap.
+
+// Excel refuses sheets past this many rows; the header takes one
+export const XLSX_MAX_ROWS = 1_048_576;
+
+type ZipEntry = {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  compressed: number;
+};
+
+const UTF8_AND_DESCRIPTOR = 0x0808; // sizes/crc follow the data; names are UTF-8
+const DEFLATE = 8;
+
+function dosDateTime(d: Date): [number, number] {
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+  const date = ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return [time, date];
+}
+
+class ZipWriter {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private current: ZipEntry | null = null;
+  private readonly time: number;
+  private readonly date: number;
+
+  constructor() {
+    [this.time, this.date] = dosDateTime(new Date());
+  }
+
+  begin(name: string): Buffer {
+    const entry: ZipEntry = { name: Buffer.from(name), offset: this.offset, crc: 0, size: 0, compressed: 0 };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(UTF8_AND_DESCRIPTOR, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.time, 10);
+    header.writeUInt16LE(this.date, 12);
+    // crc and sizes (14..25) stay zero; the data descriptor carries them
+    header.writeUInt16LE(entry.name.length, 26);
+    this.current = entry;
+    return this.advance(Buffer.concat([header, entry.name]));
+  }
+
+  write(data: string): Buffer {
+    const entry = this.current!;
+    const raw = Buffer.from(data);
+    if (raw.length === 0) return raw;
+    entry.crc = crc32(raw, entry.crc);
+    entry.size += raw.length;
+    const out = deflateRawSync(raw, { finishFlush: constants.Z_SYNC_FLUSH });
+    entry.compressed += out.length;
+    return this.advance(out);
+  }
+
+  finish(): Buffer {
+    const entry = this.current!;
+    // Empty final block closes the deflate stream
+    const last = deflateRawSync(Buffer.alloc(0));
+    entry.compressed += last.length;
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressed, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    this.entries.push(entry);
+    this.current = null;
+    return this.advance(Buffer.concat([last, descriptor]));
+  }
+
+  file(name: string, content: string): Buffer {
+    return Buffer.concat([this.begin(name), this.write(content), this.finish()]);
+  }
+
+  // Central directory and end record
+  end(): Buffer {
+    const start = this.offset;
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4);
+      record.writeUInt16LE(20, 6);
+      record.writeUInt16LE(UTF8_AND_DESCRIPTOR, 8);
+      record.writeUInt16LE(DEFLATE, 10);
+      record.writeUInt16LE(this.time, 12);
+      record.writeUInt16LE(this.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressed, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(this.entries.length, 8);
+    eocd.writeUInt16LE(this.entries.length, 10);
+    eocd.writeUInt32LE(directory.length, 12);
+    eocd.writeUInt32LE(start, 16);
+    return this.advance(Buffer.concat([directory, eocd]));
+  }
+
+  private advance(chunk: Buffer): Buffer {
+    this.offset += chunk.length;
+    return chunk;
+  }
+}
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PKG_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+const CONTENT_TYPES =
+  XML_HEAD +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  "</Types>";
+
+const ROOT_RELS =
+  XML_HEAD +
+  `<Relationships xmlns="${PKG_REL_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  "</Relationships>";
+
+const WORKBOOK_RELS =
+  XML_HEAD +
+  `<Relationships xmlns="${PKG_REL_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  "</Relationships>";
+
+const workbook = (sheetName: string) =>
+  XML_HEAD +
+  `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+  `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+  "</workbook>";
+
+// Also drops control characters, which XML 1.0 cannot carry at all
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+function cellXml(value: Cell): string {
+  return typeof value === "number"
+    ? `<c><v>${value}</v></c>`
+    : `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+const rowXml = (cells: Cell[]) => `<row>${cells.map(cellXml).join("")}</row>`;
+
+export function createXlsxWriter(sheetName: string): ExportWriter {
+  const zip = new ZipWriter();
+  let rowCount = 0;
+
+  return {
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+    head(columns) {
+      rowCount = 1;
+      return Buffer.concat([
+        zip.file("[Content_Types].xml", CONTENT_TYPES),
+        zip.file("_rels/.rels", ROOT_RELS),
+        zip.file("xl/workbook.xml", workbook(sheetName)),
+        zip.file("xl/_rels/workbook.xml.rels", WORKBOOK_RELS),
+        zip.begin("xl/worksheets/sheet1.xml"),
+        zip.write(`${XML_HEAD}<worksheet xmlns="${MAIN_NS}"><sheetData>${rowXml([...columns])}`),
+      ]);
+    },
+    rows(rows) {
+      const fit = rows.slice(0, Math.max(0, XLSX_MAX_ROWS - rowCount));
+      rowCount += fit.length;
+      return zip.write(fit.map(rowXml).join(""));
+    },
+    tail() {
+      return Buffer.concat([zip.write("</sheetData></worksheet>"), zip.finish(), zip.end()]);
+    },
+  };
+}
@@ -1,21 +1,36 @@
+import "dotenv/config";
 import express from "express";
 import cors from "cors";
-// In-memory mode
 import { router } from "./routes";
 import { attachQuoteWSServer } from "./quotes";
+import { store } from "./store";
+import { errorHandler, notFoundHandler } from "./errors";
 import { createServer } from "http";
 
 const app = express();
-app.use(cors());
+// ETag is read by clients editing users (sent back as If-Match)
+app.use(cors({ exposedHeaders: ["ETag"] }));
 app.use(express.json());
 
 app.use(router);
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3001;
 
 const server = createServer(app);
 attachQuoteWSServer(server);
 
-server.listen(PORT, () => {
-  console.log(`Backend listening on http://localhost:${PORT}`);
-});
+// Schema must exist before the first request reaches a handler
+store
+  .init()
+  .then(() => {
+    server.listen(PORT, () => {
+      console.log(`Backend listening on http://localhost:${PORT} (store: ${process.env.STORE_DRIVER || "memory"})`);
+    });
+  })
+  .catch((err) => {
+    // e.g. an SQLite file that can't be opened or is not a database
+    console.error("Backend failed to start: could not initialize the store", err);
+    process.exit(1);
+  });
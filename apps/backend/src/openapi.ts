@@ -0,0 +1,225 @@
+import type { RequestHandler, Router } from "express";
+import { z } from "zod";
+import { apiErrorResponseSchema } from "shared";
+import type { RequestSchemas } from "./validation";
+
+// OpenAPI 3.1 document built from the routes registered on a router. Routes
+// opt in to richer docs by putting describeRoute() in front of their handler;
+// anything without it is still listed, just without schemas.
+
+export type ResponseDoc = {
+  description: string;
+  schema?: z.ZodType;
+};
+
+export type RouteDoc = {
+  summary: string;
+  description?: string;
+  tag: string;
+  request?: RequestSchemas;
+  // Error statuses other than 400, which is added whenever `request` is set
+  responses: Record<number, ResponseDoc | string>;
+  // Sample values for generated requests; query params fall back to defaults
+  example?: {
+    params?: Record<string, string>;
+    query?: Record<string, string>;
+    body?: unknown;
+  };
+};
+
+const ROUTE_DOC = Symbol("routeDoc");
+
+type DocumentedHandler = RequestHandler & { [ROUTE_DOC]?: RouteDoc };
+
+// No-op middleware that carries a route's documentation
+export function describeRoute(doc: RouteDoc): RequestHandler {
+  const handler: DocumentedHandler = (req, res, next) => next();
+  handler[ROUTE_DOC] = doc;
+  return handler;
+}
+
+type JsonSchema = { [key: string]: unknown };
+
+export type Parameter = {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+};
+
+export type Operation = {
+  tags: string[];
+  summary: string;
+  description?: string;
+  parameters?: Parameter[];
+  requestBody?: {
+    required: boolean;
+    content: { "application/json": { schema: JsonSchema; example?: unknown } };
+  };
+  responses: Record<string, { description: string; content?: { "application/json": { schema: JsonSchema } } }>;
+  "x-example"?: RouteDoc["example"];
+};
+
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description: string };
+  tags: { name: string }[];
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+// Just enough of Express's internal router layers to find routes
+type RouteLayer = {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { handle: DocumentedHandler }[];
+  };
+};
+
+const MAX_INT = Number.MAX_SAFE_INTEGER;
+
+// Schema ids set with .meta({ id }) become components; everything else inlines
+function toSchema(schema: z.ZodType, io: "input" | "output", components: Record<string, JsonSchema>): JsonSchema {
+  const json = z.toJSONSchema(schema, { io, unrepresentable: "any" }) as JsonSchema;
+  const { $schema, $defs, ...rest } = json;
+  for (const [id, def] of Object.entries(($defs as Record<string, JsonSchema>) ?? {})) {
+    components[id] = tidy(def);
+  }
+  return tidy(rest);
+}
+
+// Point refs at components and drop noise zod emits for every int/datetime
+function tidy(node: unknown): JsonSchema {
+  if (Array.isArray(node)) return node.map(tidy) as unknown as JsonSchema;
+  if (!node || typeof node !== "object") return node as JsonSchema;
+  const out: JsonSchema = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "$ref" && typeof value === "string") {
+      out[key] = value.replace("#/$defs/", "#/components/schemas/");
+    } else if ((key === "minimum" && value === -MAX_INT) || (key === "maximum" && value === MAX_INT)) {
+      continue;
+    } else if (key === "pattern" && (node as JsonSchema).format === "date-time") {
+      continue;
+    } else {
+      out[key] = tidy(value);
+    }
+  }
+  return out;
+}
+
+// One parameter per key of an object schema. Query values are documented as
+// parsed (e.g. integer with a default); transformed ones (csv lists, flags)
+// fall back to how they are sent.
+function toParameters(
+  schema: z.ZodType | undefined,
+  location: "path" | "query",
+  components: Record<string, JsonSchema>
+): Parameter[] {
+  if (!(schema instanceof z.ZodObject)) return [];
+  return Object.entries(schema.shape as Record<string, z.ZodType>).map(([name, field]) => {
+    let json = toSchema(field, "output", components);
+    if (Object.keys(json).length === 0) json = toSchema(field, "input", components);
+    const { description, ...rest } = json;
+    return {
+      name,
+      in: location,
+      required: location === "path" || !field.safeParse(undefined).success,
+      ...(typeof description === "string" && { description }),
+      schema: rest,
+    };
+  });
+}
+
+function toOperation(
+  method: string,
+  path: string,
+  doc: RouteDoc | undefined,
+  components: Record<string, JsonSchema>
+): Operation {
+  if (!doc) {
+    return {
+      tags: ["Other"],
+      summary: `${method.toUpperCase()} ${path}`,
+      responses: { 200: { description: "OK" } },
+    };
+  }
+
+  const { params, query, body } = doc.request ?? {};
+  const parameters = [
+    ...toParameters(params, "path", components),
+    ...toParameters(query, "query", components),
+  ];
+  // ApiError carries a schema id, so this is just a $ref to the component
+  const errorRef = toSchema(apiErrorResponseSchema, "output", components);
+
+  const responses: Operation["responses"] = {};
+  for (const [status, response] of Object.entries(doc.responses)) {
+    const { description, schema } = typeof response === "string" ? { description: response } : response;
+    const isError = Number(status) >= 400;
+    const json = schema ? toSchema(schema, "output", components) : isError ? errorRef : undefined;
+    responses[status] = { description, ...(json && { content: { "application/json": { schema: json } } }) };
+  }
+  if (doc.request && !responses[400]) {
+    responses[400] = {
+      description: "Invalid params, query or body; `details` lists each field",
+      content: { "application/json": { schema: errorRef } },
+    };
+  }
+
+  return {
+    tags: [doc.tag],
+    summary: doc.summary,
+    ...(doc.description && { description: doc.description }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: toSchema(body, "input", components),
+            ...(doc.example?.body !== undefined && { example: doc.example.body }),
+          },
+        },
+      },
+    }),
+    responses,
+    ...(doc.example && { "x-example": doc.example }),
+  };
+}
+
+export function buildOpenApiDocument(router: Router): OpenApiDocument {
+  const document: OpenApiDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: "Next-Node Monorepo API",
+      version: "1.0.0",
+      description:
+        "Generated from the routes registered on the backend router and the request schemas in `packages/shared`. " +
+        "Live quotes are pushed over the WebSocket at `/ws/quotes` (send `{\"type\":\"subscribe\",\"symbols\":[...]}`), which OpenAPI does not describe.",
+    },
+    tags: [],
+    paths: {},
+    components: { schemas: {} },
+  };
+  const tags = new Set<string>();
+
+  for (const layer of router.stack as RouteLayer[]) {
+    if (!layer.route) continue;
+    const { path, methods, stack } = layer.route;
+    const doc = stack.map((s) => s.handle[ROUTE_DOC]).find(Boolean);
+    const openApiPath = path.replace(/:(\w+)/g, "{$1}");
+
+    for (const method of Object.keys(methods)) {
+      if (method === "_all") continue;
+      const operation = toOperation(method, path, doc, document.components.schemas);
+      document.paths[openApiPath] ??= {};
+      document.paths[openApiPath][method] = operation;
+      tags.add(operation.tags[0]);
+    }
+  }
+
+  document.tags = [...tags].map((name) => ({ name }));
+  return document;
+}
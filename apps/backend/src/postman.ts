@@ -0,0 +1,98 @@
+import type { OpenApiDocument, Operation } from "./openapi";
+
+// Postman v2.1 collection derived from the OpenAPI document, one folder per
+// tag. Query params with an example are enabled; the rest are listed but
+// disabled, so the server default applies until someone ticks them.
+
+type QueryParam = { key: string; value: string; description?: string; disabled?: boolean };
+
+type PostmanItem = {
+  name: string;
+  request: {
+    method: string;
+    header: { key: string; value: string }[];
+    url: {
+      raw: string;
+      host: string[];
+      path: string[];
+      query?: QueryParam[];
+      variable?: { key: string; value: string }[];
+    };
+    body?: { mode: "raw"; raw: string; options: { raw: { language: "json" } } };
+    description?: string;
+  };
+};
+
+export type PostmanCollection = {
+  info: { name: string; description: string; schema: string };
+  variable: { key: string; value: string; type: "string" }[];
+  item: { name: string; item: PostmanItem[] }[];
+};
+
+function toItem(method: string, path: string, op: Operation): PostmanItem {
+  const example = op["x-example"] ?? {};
+  const segments = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => segment.replace(/^\{(\w+)\}$/, ":$1"));
+
+  const variable = (op.parameters ?? [])
+    .filter((p) => p.in === "path")
+    .map((p) => ({ key: p.name, value: example.params?.[p.name] ?? "1" }));
+
+  const query: QueryParam[] = (op.parameters ?? [])
+    .filter((p) => p.in === "query")
+    .map((p) => {
+      const value = example.query?.[p.name];
+      const fallback = p.schema.default;
+      return {
+        key: p.name,
+        value: value ?? (fallback === undefined ? "" : String(fallback)),
+        ...(p.description && { description: p.description }),
+        ...(value === undefined && { disabled: true }),
+      };
+    });
+
+  const enabled = query.filter((q) => !q.disabled);
+  const search = enabled.length ? `?${enabled.map((q) => `${q.key}=${q.value}`).join("&")}` : "";
+  const body = op.requestBody?.content["application/json"].example;
+
+  return {
+    name: op.summary,
+    request: {
+      method: method.toUpperCase(),
+      header: body === undefined ? [] : [{ key: "Content-Type", value: "application/json" }],
+      url: {
+        raw: `{{baseUrl}}/${segments.join("/")}${search}`,
+        host: ["{{baseUrl}}"],
+        path: segments,
+        ...(query.length > 0 && { query }),
+        ...(variable.length > 0 && { variable }),
+      },
+      ...(body !== undefined && {
+        body: { mode: "raw", raw: JSON.stringify(body, null, 2), options: { raw: { language: "json" } } },
+      }),
+      ...(op.description && { description: op.description }),
+    },
+  };
+}
+
+export function buildPostmanCollection(document: OpenApiDocument, baseUrl = "http://localhost:3001"): PostmanCollection {
+  const folders = new Map<string, PostmanItem[]>(document.tags.map((tag) => [tag.name, []]));
+
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const [method, op] of Object.entries(operations)) {
+      folders.get(op.tags[0])?.push(toItem(method, path, op));
+    }
+  }
+
+  return {
+    info: {
+      name: document.info.title,
+      description: document.info.description,
+      schema: "https://schema.getpostman.com/json/collection/v2.1.0/collection.json",
+    },
+    variable: [{ key: "baseUrl", value: baseUrl, type: "string" }],
+    item: [...folders].map(([name, item]) => ({ name, item })),
+  };
+}
@@ -1,18 +1,40 @@
 import type { Server as HttpServer } from "http";
 import WebSocket, { WebSocketServer } from "ws";
+import type { QuoteTick, QuotesMessage, QuotesSnapshot, SearchHits, SymbolSearchHit } from "shared";
+import { symbolSearchIndex } from "./store/searchIndex";
 
-export type QuoteTick = { symbol: string; price: number; ts: string };
+// Symbols the generator ticks unless told otherwise
+export const DEFAULT_SYMBOLS = ["AAPL", "MSFT", "GOOG", "AMZN", "META", "NVDA", "TSLA", "AMD", "NFLX", "INTC"];
 
 // Singleton in-memory store
 class QuoteStore {
   private symbolToQuote = new Map<string, QuoteTick>();
+  // The default symbols plus every symbol that has ticked
+  private symbolSearch = symbolSearchIndex();
+
+  constructor(symbols: string[]) {
+    this.symbolSearch.rebuild(symbols.map((symbol) => ({ id: symbol, symbol })));
+  }
 
   upsert(symbol: string, price: number, ts: string) {
+    if (!this.symbolToQuote.has(symbol)) this.symbolSearch.add({ id: symbol, symbol });
     this.symbolToQuote.set(symbol, { symbol, price, ts });
   }
 
-  snapshot(symbols: string[]): Record<string, QuoteTick | null> {
-    const out: Record<string, QuoteTick | null> = {};
+  searchSymbols(query: string, limit: number): SearchHits<SymbolSearchHit> {
+    const found = this.symbolSearch.search(query);
+    if (!found) return { items: [], total: 0 };
+    const items = found.ranked(limit).map(({ key: symbol, score }) => ({
+      symbol,
+      score,
+      highlights: found.highlights(symbol),
+      quote: this.symbolToQuote.get(symbol) ?? null,
+    }));
+    return { items, total: found.size };
+  }
+
+  snapshot(symbols: string[]): QuotesSnapshot {
+    const out: QuotesSnapshot = {};
     for (const s of symbols) out[s] = this.symbolToQuote.get(s) || null;
     return out;
   }
@@ -84,7 +106,8 @@ class QuotePublisher {
       }
       if (payload.length > 0) {
         try {
-          ws.send(JSON.stringify({ type: "quotes", items: payload }));
+          const message: QuotesMessage = { type: "quotes", items: payload };
+          ws.send(JSON.stringify(message));
         } catch {}
       }
     }
@@ -103,7 +126,7 @@ class QuotePublisher {
   }
 }
 
-export const quoteStore = new QuoteStore();
+export const quoteStore = new QuoteStore(DEFAULT_SYMBOLS);
 export const quotePublisher = new QuotePublisher(quoteStore);
 
 // WebSocket server wiring
@@ -149,16 +172,17 @@ export function attachQuoteWSServer(server: HttpServer) {
 
 // Random quote generator (in-process)
 let genTimer: NodeJS.Timeout | null = null;
-export function startRandomQuoteGenerator(opts?: { symbols?: string[]; ratePerSec?: number; jitterPct?: number }) {
-  const symbols = opts?.symbols || [
-    "AAPL","MSFT","GOOG","AMZN","META","NVDA","TSLA","AMD","NFLX","INTC"
-  ];
+// The same seed and symbols replay the same price moves; only the tick
+// timestamps are live
+export function startRandomQuoteGenerator(opts?: { symbols?: string[]; ratePerSec?: number; jitterPct?: number; seed?: number }) {
+  const symbols = opts?.symbols || DEFAULT_SYMBOLS;
   const baseRate = Math.max(1, Math.min(1000, Math.floor(opts?.ratePerSec || 20))); // updates/sec aggregate
   const jitterPct = Math.max(0, Math.min(1, opts?.jitterPct ?? 0.2));
 
   if (genTimer) clearInterval(genTimer);
 
-  const rng = mulberry32(42);
+  const seed = opts?.seed ?? 42;
+  const rng = mulberry32(seed);
   const priceMap = new Map<string, number>();
   for (const s of symbols) priceMap.set(s, 100 + Math.floor(rng() * 200));
 
@@ -178,7 +202,7 @@ export function startRandomQuoteGenerator(opts?: { symbols?: string[]; ratePerSe
 
   const intervalMs = Math.max(10, Math.floor(1000 / Math.max(1, baseRate)));
   genTimer = setInterval(tick, intervalMs);
-  return { running: true, symbols, intervalMs };
+  return { running: true, symbols, intervalMs, seed };
 }
 
 export function stopRandomQuoteGenerator() {
@@ -1,168 +1,817 @@
-import { Router } from "express";
-import { db, seedInMemory, UserRow, generateTree, getNodePath } from "./db";
+import express, { RequestHandler, Router } from "express";
+import { dirname } from "path";
+import { z } from "zod";
+import { generateSeedData, generateTree } from "./db";
+import {
+  USER_SORT_KEYS,
+  BulkItemResult,
+  CursorPageResponse,
+  NodeChildrenPage,
+  GlobalSearchResult,
+  SortDirParam,
+  UserOrder,
+  UserListRow,
+  UserSortTerm,
+  bulkDeleteUsersRequest,
+  bulkExportUsersRequest,
+  bulkResultSchema,
+  createOrderRequest,
+  createProductRequest,
+  createUserRequest,
+  createNodeRequest,
+  cursorPageSchema,
+  deleteNodeRequest,
+  deleteOrderRequest,
+  deleteProductRequest,
+  deleteUserRequest,
+  exportUsersRequest,
+  getNodeRequest,
+  getOrderRequest,
+  getProductRequest,
+  getUserRequest,
+  globalSearchRequest,
+  globalSearchResultSchema,
+  listOrdersRequest,
+  listProductsRequest,
+  listUsersRequest,
+  nodeChildrenRequest,
+  nodeChildrenPageSchema,
+  nodeDetailSchema,
+  nodeSchema,
+  nodeSearchRequest,
+  orderRowSchema,
+  orderSchema,
+  pageSchema,
+  patchNodeRequest,
+  patchOrderRequest,
+  patchProductRequest,
+  patchUserRequest,
+  productSchema,
+  quotesSnapshotRequest,
+  quotesSnapshotSchema,
+  quotesStartRequest,
+  replaceOrderRequest,
+  replaceProductRequest,
+  replaceUserRequest,
+  searchResultSchema,
+  seedRequest,
+  userDetailSchema,
+  userOrderSchema,
+  userOrdersRequest,
+  userListRowSchema,
+  userRowSchema,
+} from "shared";
+import { store, SortDir, UserSort, UserSortKey } from "./store";
+import { CursorSort, decodeCursor, encodeCursor, pageCursors } from "./cursor";
+import { bulkResult, resolveUserSelection } from "./bulk";
+import { ApiError, FieldIssue } from "./errors";
+import { assertIfMatch, userEtag } from "./etag";
+import { createExportWriter, writeUserExport } from "./export";
+import { parseRequest } from "./validation";
+import { buildOpenApiDocument, describeRoute, OpenApiDocument } from "./openapi";
 import { quoteStore, startRandomQuoteGenerator, stopRandomQuoteGenerator } from "./quotes";
 
 export const router = Router();
 
-router.post("/dev/seed", async (req, res) => {
-  const users = Number((req.query.users as string) || 1000);
-  const orders = Number((req.query.orders as string) || 10000);
-  const products = Number((req.query.products as string) || 1000);
-  const breadth = Number((req.query.breadth as string) || 20);
-  const depth = Number((req.query.depth as string) || 10);
-  
-  const counts = seedInMemory({ users, products, orders });
-  const treeCounts = generateTree(breadth, depth);
-  
-  res.json({ ...counts, ...treeCounts });
+// Child pages go by sibling position, which is unique, so it is the cursor's
+// key and id both
+const SIBLING_ORDER: CursorSort = [{ by: "position", dir: "ASC" }];
+
+const invalidCursor = () =>
+  ApiError.badRequest("Invalid cursor", [{ path: "query.cursor", message: "Not a cursor issued by this API" }]);
+
+const toSortDir = (dir: SortDirParam): SortDir => (dir === "asc" ? "ASC" : "DESC");
+
+// `sort` when given, otherwise the single sortBy/sortDir pair
+function userSort(query: { sort: UserSortTerm[]; sortBy: UserSortKey; sortDir: SortDirParam }): UserSort {
+  const terms = query.sort.length ? query.sort : [{ by: query.sortBy, dir: query.sortDir }];
+  return terms.map(({ by, dir }) => ({ by, dir: toSortDir(dir) }));
+}
+
+const isUserSort = (sort: CursorSort): sort is UserSort =>
+  sort.every(({ by }) => USER_SORT_KEYS.includes(by as UserSortKey));
+
+// Referential checks shared by order create/replace/update
+async function assertOrderRefs(refs: { userId?: number; productId?: number }) {
+  const details: FieldIssue[] = [];
+  if (refs.userId !== undefined && !(await store.getUser(refs.userId))) {
+    details.push({ path: "body.userId", message: `User ${refs.userId} does not exist` });
+  }
+  if (refs.productId !== undefined && !(await store.getProduct(refs.productId))) {
+    details.push({ path: "body.productId", message: `Product ${refs.productId} does not exist` });
+  }
+  if (details.length) throw ApiError.unprocessable("Order references missing records", details);
+}
+
+// A node's parent must exist and, for a move, sit outside the node's own
+// subtree, or the subtree would be cut off from the roots in a cycle
+async function assertNodeParent(parentId: string | null, movingId?: string) {
+  if (parentId === null) return;
+  if (!(await store.getNode(parentId))) {
+    throw ApiError.unprocessable("Parent node does not exist", [
+      { path: "body.parentId", message: `Node ${parentId} does not exist` },
+    ]);
+  }
+  if (movingId !== undefined && (await store.isNodeWithin(parentId, movingId))) {
+    throw ApiError.conflict("Move would create a cycle", [
+      {
+        path: "body.parentId",
+        message:
+          parentId === movingId ? "A node cannot be its own parent" : `Node ${parentId} is inside node ${movingId}`,
+      },
+    ]);
+  }
+}
+
+async function assertEmailFree(email: string, exceptId?: number) {
+  const owner = await store.findUserIdByEmail(email);
+  if (owner !== null && owner !== exceptId) {
+    throw ApiError.conflict("Email already in use", [{ path: "body.email", message: `Taken by user ${owner}` }]);
+  }
+}
+
+router.post("/dev/seed", describeRoute({
+  tag: "Dev",
+  summary: "Seed users, products, orders and the org tree",
+  description:
+    "Replaces all data in the active store with a generated dataset. The same query, `seed` included, always " +
+    "generates the same data. `shape` picks how the org tree branches and `nodes` caps its size.",
+  request: seedRequest,
+  responses: { 200: "Counts of generated records and the seed used" },
+  example: { query: { users: "1000", orders: "5000", products: "100", breadth: "5", depth: "3", shape: "balanced", seed: "7" } },
+}), async (req, res) => {
+  const { users, orders, products, seed, ...tree } = parseRequest(req, seedRequest).query;
+
+  const data = generateSeedData({ users, products, orders, seed });
+  await store.replaceData(data);
+  const nodes = generateTree({ ...tree, seed }, data.users.map((u) => u.name));
+  await store.replaceNodes(nodes);
+
+  res.json({
+    seed,
+    users: data.users.length,
+    products: data.products.length,
+    orders: data.orders.length,
+    nodes: nodes.length,
+  });
 });
 
 // Quotes API
-router.get("/api/quotes/snapshot", (req, res) => {
-  const symbolsParam = (req.query.symbols as string) || "";
-  const symbols = symbolsParam
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
+router.get("/api/quotes/snapshot", describeRoute({
+  tag: "Quotes",
+  summary: "Latest quote per symbol",
+  request: quotesSnapshotRequest,
+  responses: { 200: { description: "Latest tick per symbol, null if none yet", schema: quotesSnapshotSchema } },
+  example: { query: { symbols: "AAPL,MSFT,GOOG,AMZN,META" } },
+}), (req, res) => {
+  const { symbols } = parseRequest(req, quotesSnapshotRequest).query;
   if (symbols.length === 0) return res.json({});
   return res.json(quoteStore.snapshot(symbols));
 });
 
-router.post("/dev/quotes/start", (req, res) => {
-  const rate = Number((req.query.rate as string) || 20);
-  const symbolsParam = (req.query.symbols as string) || "";
-  const symbols = symbolsParam
-    ? symbolsParam.split(",").map((s) => s.trim()).filter(Boolean)
-    : undefined;
-  const info = startRandomQuoteGenerator({ ratePerSec: rate, symbols });
+router.post("/dev/quotes/start", describeRoute({
+  tag: "Dev",
+  summary: "Start the random quote generator",
+  request: quotesStartRequest,
+  responses: { 200: "Generator state" },
+  example: { query: { rate: "20", symbols: "AAPL,MSFT,GOOG,AMZN,META,NVDA,TSLA,AMD,NFLX,INTC", seed: "42" } },
+}), (req, res) => {
+  const { rate, symbols, seed } = parseRequest(req, quotesStartRequest).query;
+  const info = startRandomQuoteGenerator({ ratePerSec: rate, symbols, seed });
   res.json({ started: true, ...info });
 });
 
-router.post("/dev/quotes/stop", (req, res) => {
+router.post("/dev/quotes/stop", describeRoute({
+  tag: "Dev",
+  summary: "Stop the random quote generator",
+  responses: { 200: "Stopped" },
+}), (req, res) => {
   stopRandomQuoteGenerator();
   res.json({ stopped: true });
 });
 
-router.get("/api/users", async (req, res) => {
-  const page = Math.max(1, Number(req.query.page || 1));
-  const pageSizeRaw = Number(req.query.pageSize || 50);
-  const pageSize = Math.max(1, Math.min(200, pageSizeRaw));
-  const search = (req.query.search as string) || "";
-  const sortBy = (req.query.sortBy as string) || "createdAt";
-  const sortDir =
-    ((req.query.sortDir as string) || "desc").toLowerCase() === "asc"
-      ? "ASC"
-      : "DESC";
-  const lcSearch = search.toLowerCase();
-  const filtered = lcSearch
-    ? db.users.filter(
-        (u) =>
-          u.name.toLowerCase().includes(lcSearch) ||
-          u.email.toLowerCase().includes(lcSearch)
-      )
-    : db.users;
-
-  console.log(req.query);
-
-  // Precompute aggregates
-  const userIdToAgg = new Map<
-    number,
-    { orderCount: number; orderTotal: number }
-  >();
-  for (const u of filtered)
-    userIdToAgg.set(u.id, { orderCount: 0, orderTotal: 0 });
-  for (const o of db.orders) {
-    const agg = userIdToAgg.get(o.userId);
-    if (agg) {
-      agg.orderCount += 1;
-      agg.orderTotal += o.amount;
+router.get("/api/users", describeRoute({
+  tag: "Users",
+  summary: "List users",
+  description:
+    "Offset pagination with `page`, or keyset pagination with `cursor` (empty for the first page, then `nextCursor`/`prevCursor`). " +
+    "`sort` lists keys in priority order (`orderTotal:desc,name:asc`) and takes precedence over `sortBy`/`sortDir`. " +
+    "`filter` takes comma separated `field:op:value` clauses, combined with AND (`match=all`) or OR (`match=any`). " +
+    "`search` keeps users whose name or email matches every word, by word, prefix or near miss; " +
+    "each row then carries `highlights`, the matched ranges of `name` and `email`.",
+  request: listUsersRequest,
+  responses: {
+    200: {
+      description: "A page of users",
+      schema: z.union([pageSchema(userListRowSchema), cursorPageSchema(userListRowSchema)]),
+    },
+  },
+  example: { query: { page: "1", pageSize: "50", sort: "orderTotal:desc,name:asc" } },
+}), async (req, res) => {
+  const { page, pageSize, search, cursor: rawCursor, ...query } = parseRequest(req, listUsersRequest).query;
+  const filter = { match: query.match, clauses: query.filter };
+
+  // Keyset mode: any `cursor` param (empty = first page); the cursor's own sort wins
+  if (rawCursor !== undefined) {
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && (!cursor || !isUserSort(cursor.sort))) {
+      throw invalidCursor();
     }
+    const sort = cursor ? (cursor.sort as UserSort) : userSort(query);
+    const result = await store.listUsersByCursor({ pageSize, search, filter, sort, cursor });
+    const body: CursorPageResponse<UserListRow> = {
+      items: result.items,
+      total: result.total,
+      pageSize,
+      ...pageCursors(result, sort, (row) => sort.map(({ by }) => row[by])),
+    };
+    return res.json(body);
   }
 
-  let rows: UserRow[] = filtered.map((u) => {
-    const agg = userIdToAgg.get(u.id) || { orderCount: 0, orderTotal: 0 };
-    return {
-      id: u.id,
-      name: u.name,
-      email: u.email,
-      createdAt: u.createdAt,
-      orderCount: agg.orderCount,
-      orderTotal: Number(agg.orderTotal.toFixed(2)),
-    };
+  const result = await store.listUsers({
+    page,
+    pageSize,
+    search,
+    filter,
+    sort: userSort(query),
+  });
+  res.json(result);
+});
+
+// Registered ahead of /api/users/:id so "export" is not taken for an id
+router.get("/api/users/export", describeRoute({
+  tag: "Users",
+  summary: "Export users",
+  description:
+    "Streams every user matching `search` and `filter` in list order (`sort`, or `sortBy`/`sortDir`) as a download. " +
+    "XLSX stops at Excel's limit of 1,048,576 rows including the header.",
+  request: exportUsersRequest,
+  responses: { 200: "CSV, NDJSON or XLSX file" },
+  example: { query: { format: "csv", sort: "orderTotal:desc,name:asc" } },
+}), async (req, res) => {
+  const { format, search, filter, match, ...query } = parseRequest(req, exportUsersRequest).query;
+  const writer = createExportWriter(format);
+
+  res.setHeader("Content-Type", writer.contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="users.${writer.extension}"`);
+  await writeUserExport(res, writer, store, {
+    search,
+    filter: { match, clauses: filter },
+    sort: userSort(query),
+  });
+});
+
+router.post("/api/users/bulk-delete", describeRoute({
+  tag: "Users",
+  summary: "Delete several users",
+  description:
+    "Select users by `ids`, or by `matching` (the list's `search`, `filter` and `match`) to act on every match without listing ids; " +
+    "`exclude` takes ids out of either. Every selected user gets a result: `ok`, `not_found`, or `conflict` when it has orders and `cascade` is not set. " +
+    "At most 10,000 users per request.",
+  request: bulkDeleteUsersRequest,
+  responses: {
+    200: { description: "Outcome per selected user", schema: bulkResultSchema },
+    422: "Selection matches more than 10,000 users",
+  },
+  example: { body: { matching: { search: "doe", filter: "orderCount:eq:0" }, exclude: [42] } },
+}), async (req, res) => {
+  const { cascade, ...selection } = parseRequest(req, bulkDeleteUsersRequest).body;
+  const ids = await resolveUserSelection(store, selection);
+
+  const results: BulkItemResult[] = [];
+  for (const id of ids) {
+    const user = await store.getUser(id);
+    if (!user) {
+      results.push({ id, status: "not_found", message: `User ${id} not found` });
+    } else if (user.orderCount > 0 && !cascade) {
+      results.push({ id, status: "conflict", message: `User ${id} has ${user.orderCount} orders` });
+    } else {
+      await store.deleteUser(id);
+      results.push({ id, status: "ok" });
+    }
+  }
+  res.json(bulkResult(results));
+});
+
+// A browser downloads by posting a form, so the file streams to disk instead
+// of into memory; the JSON body then arrives as the form's `body` field
+const jsonFormBody: RequestHandler[] = [
+  express.urlencoded({ extended: false }),
+  (req, res, next) => {
+    if (!req.is("application/x-www-form-urlencoded")) return next();
+    try {
+      req.body = JSON.parse(req.body?.body ?? "");
+    } catch {
+      throw ApiError.badRequest("Invalid request", [{ path: "body", message: "Form field `body` is not valid JSON" }]);
+    }
+    next();
+  },
+];
+
+router.post("/api/users/bulk-export", describeRoute({
+  tag: "Users",
+  summary: "Export selected users",
+  description:
+    "Same selection as bulk-delete (`ids`, or `matching` with `exclude`), streamed like GET /api/users/export in `sort` order. The body may also come as a form post whose `body` field holds the JSON, so a browser can download it directly.",
+  request: bulkExportUsersRequest,
+  responses: { 200: "CSV, NDJSON or XLSX file" },
+  example: { body: { ids: [1, 2, 3], format: "csv", sort: "name:asc" } },
+}), ...jsonFormBody, async (req, res) => {
+  const { format, sort, sortBy, sortDir, ids, matching, exclude } = parseRequest(req, bulkExportUsersRequest).body;
+  const writer = createExportWriter(format);
+
+  res.setHeader("Content-Type", writer.contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="users.${writer.extension}"`);
+  const excluded = new Set(exclude);
+  await writeUserExport(res, writer, store, {
+    search: matching?.search ?? "",
+    filter: { match: matching?.match ?? "all", clauses: matching?.filter ?? [] },
+    sort: userSort({ sort, sortBy, sortDir }),
+    ...(ids ? { include: new Set(ids.filter((id) => !excluded.has(id))) } : { exclude: excluded }),
   });
+});
+
+router.get("/api/users/:id/orders", describeRoute({
+  tag: "Users",
+  summary: "List a user's orders, newest first",
+  description: "Each order carries its product's current `productName` and `productPrice` (null if the product is gone).",
+  request: userOrdersRequest,
+  responses: {
+    200: {
+      description: "A page of orders",
+      schema: z.union([pageSchema(userOrderSchema), cursorPageSchema(userOrderSchema)]),
+    },
+  },
+}), async (req, res) => {
+  const { params, query } = parseRequest(req, userOrdersRequest);
+  const userId = params.id;
+  const { page, pageSize, cursor: rawCursor } = query;
 
-  rows.sort((a, b) => {
-    const dir = sortDir === "ASC" ? 1 : -1;
-    switch (sortBy) {
-      case "name":
-        return dir * a.name.localeCompare(b.name);
-      case "email":
-        return dir * a.email.localeCompare(b.email);
-      case "orderCount":
-        return dir * (a.orderCount - b.orderCount);
-      case "orderTotal":
-        return dir * (a.orderTotal - b.orderTotal);
-      case "createdAt":
-      default:
-        return (
-          dir *
-          (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-        );
+  if (rawCursor !== undefined) {
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && (!cursor || cursor.sort[0].by !== "createdAt" || typeof cursor.keys[0] !== "string")) {
+      throw invalidCursor();
     }
+    const result = await store.listUserOrdersByCursor(userId, { pageSize, cursor });
+    const body: CursorPageResponse<UserOrder> = {
+      items: result.items,
+      total: result.total,
+      pageSize,
+      ...pageCursors(result, [{ by: "createdAt", dir: "DESC" }], (order) => [order.createdAt]),
+    };
+    return res.json(body);
+  }
+
+  res.json(await store.listUserOrders(userId, { page, pageSize }));
+});
+
+// Users / Products / Orders CRUD
+router.get("/api/users/:id", describeRoute({
+  tag: "Users",
+  summary: "Get a user with order history figures",
+  description:
+    "The list row plus average order value, first/last order time, the `top` products by spend and spend per month (UTC). " +
+    "The `ETag` header identifies the user's current name and email; send it back as `If-Match` when updating.",
+  request: getUserRequest,
+  responses: { 200: { description: "The user with order aggregates", schema: userDetailSchema }, 404: "No such user" },
+  example: { params: { id: "1" }, query: { top: "5" } },
+}), async (req, res) => {
+  const { params: { id }, query } = parseRequest(req, getUserRequest);
+  const user = await store.getUserDetail(id, query.top);
+  if (!user) throw ApiError.notFound(`User ${id} not found`);
+  res.setHeader("ETag", userEtag(user));
+  res.json(user);
+});
+
+router.post("/api/users", describeRoute({
+  tag: "Users",
+  summary: "Create a user",
+  request: createUserRequest,
+  responses: { 201: { description: "Created", schema: userRowSchema }, 409: "Email already in use" },
+  example: { body: { name: "Ada Lovelace", email: "ada@example.com" } },
+}), async (req, res) => {
+  const { body } = parseRequest(req, createUserRequest);
+  await assertEmailFree(body.email);
+  const user = await store.createUser({ ...body, createdAt: new Date().toISOString() });
+  res.setHeader("ETag", userEtag(user));
+  res.status(201).json(user);
+});
+
+router.put("/api/users/:id", describeRoute({
+  tag: "Users",
+  summary: "Replace a user",
+  description: "With an `If-Match` header the update only applies while the user still has that ETag.",
+  request: replaceUserRequest,
+  responses: {
+    200: { description: "Updated", schema: userRowSchema },
+    404: "No such user",
+    409: "Email already in use",
+    412: "User changed since the If-Match ETag was issued",
+  },
+  example: { body: { name: "Ada Lovelace", email: "ada@example.com" } },
+}), async (req, res) => {
+  const { params: { id }, body } = parseRequest(req, replaceUserRequest);
+  const user = await store.getUser(id);
+  if (!user) throw ApiError.notFound(`User ${id} not found`);
+  assertIfMatch(req, userEtag(user));
+  await assertEmailFree(body.email, id);
+  const updated = (await store.updateUser(id, body))!;
+  res.setHeader("ETag", userEtag(updated));
+  res.json(updated);
+});
+
+router.patch("/api/users/:id", describeRoute({
+  tag: "Users",
+  summary: "Update some of a user's fields",
+  description: "With an `If-Match` header the update only applies while the user still has that ETag.",
+  request: patchUserRequest,
+  responses: {
+    200: { description: "Updated", schema: userRowSchema },
+    404: "No such user",
+    409: "Email already in use",
+    412: "User changed since the If-Match ETag was issued",
+  },
+  example: { body: { name: "Ada King" } },
+}), async (req, res) => {
+  const { params: { id }, body } = parseRequest(req, patchUserRequest);
+  const user = await store.getUser(id);
+  if (!user) throw ApiError.notFound(`User ${id} not found`);
+  assertIfMatch(req, userEtag(user));
+  if (body.email !== undefined) await assertEmailFree(body.email, id);
+  const updated = (await store.updateUser(id, body))!;
+  res.setHeader("ETag", userEtag(updated));
+  res.json(updated);
+});
+
+// Users with orders are only removed with ?cascade=true, which deletes the orders too
+router.delete("/api/users/:id", describeRoute({
+  tag: "Users",
+  summary: "Delete a user",
+  request: deleteUserRequest,
+  responses: { 204: "Deleted", 404: "No such user", 409: "User has orders and cascade is not set" },
+}), async (req, res) => {
+  const { params: { id }, query } = parseRequest(req, deleteUserRequest);
+  const user = await store.getUser(id);
+  if (!user) throw ApiError.notFound(`User ${id} not found`);
+  if (user.orderCount > 0 && !query.cascade) {
+    throw ApiError.conflict(`User ${id} has ${user.orderCount} orders; pass cascade=true to delete them too`);
+  }
+  await store.deleteUser(id);
+  res.status(204).end();
+});
+
+router.get("/api/products", describeRoute({
+  tag: "Products",
+  summary: "List products",
+  description: "`search` matches words of the product name, by word, prefix or near miss; ties on `sortBy` are ordered by id.",
+  request: listProductsRequest,
+  responses: { 200: { description: "A page of products", schema: pageSchema(productSchema) } },
+  example: { query: { page: "1", pageSize: "50", sortBy: "price", sortDir: "desc" } },
+}), async (req, res) => {
+  const { sortDir, ...query } = parseRequest(req, listProductsRequest).query;
+  res.json(await store.listProducts({ ...query, sortDir: toSortDir(sortDir) }));
+});
+
+router.get("/api/products/:id", describeRoute({
+  tag: "Products",
+  summary: "Get a product",
+  request: getProductRequest,
+  responses: { 200: { description: "The product", schema: productSchema }, 404: "No such product" },
+}), async (req, res) => {
+  const { id } = parseRequest(req, getProductRequest).params;
+  const product = await store.getProduct(id);
+  if (!product) throw ApiError.notFound(`Product ${id} not found`);
+  res.json(product);
+});
+
+router.post("/api/products", describeRoute({
+  tag: "Products",
+  summary: "Create a product",
+  request: createProductRequest,
+  responses: { 201: { description: "Created", schema: productSchema } },
+  example: { body: { name: "Widget", price: 19.99 } },
+}), async (req, res) => {
+  const { body } = parseRequest(req, createProductRequest);
+  res.status(201).json(await store.createProduct(body));
+});
+
+router.put("/api/products/:id", describeRoute({
+  tag: "Products",
+  summary: "Replace a product",
+  request: replaceProductRequest,
+  responses: { 200: { description: "Updated", schema: productSchema }, 404: "No such product" },
+  example: { body: { name: "Widget", price: 19.99 } },
+}), async (req, res) => {
+  const { params: { id }, body } = parseRequest(req, replaceProductRequest);
+  const product = await store.updateProduct(id, body);
+  if (!product) throw ApiError.notFound(`Product ${id} not found`);
+  res.json(product);
+});
+
+router.patch("/api/products/:id", describeRoute({
+  tag: "Products",
+  summary: "Update some of a product's fields",
+  request: patchProductRequest,
+  responses: { 200: { description: "Updated", schema: productSchema }, 404: "No such product" },
+  example: { body: { price: 24.5 } },
+}), async (req, res) => {
+  const { params: { id }, body } = parseRequest(req, patchProductRequest);
+  const product = await store.updateProduct(id, body);
+  if (!product) throw ApiError.notFound(`Product ${id} not found`);
+  res.json(product);
+});
+
+// Same policy as users: ordered products need ?cascade=true
+router.delete("/api/products/:id", describeRoute({
+  tag: "Products",
+  summary: "Delete a product",
+  request: deleteProductRequest,
+  responses: { 204: "Deleted", 404: "No such product", 409: "Product has orders and cascade is not set" },
+}), async (req, res) => {
+  const { params: { id }, query } = parseRequest(req, deleteProductRequest);
+  if (!(await store.getProduct(id))) throw ApiError.notFound(`Product ${id} not found`);
+  const orderCount = await store.countProductOrders(id);
+  if (orderCount > 0 && !query.cascade) {
+    throw ApiError.conflict(`Product ${id} has ${orderCount} orders; pass cascade=true to delete them too`);
+  }
+  await store.deleteProduct(id);
+  res.status(204).end();
+});
+
+router.get("/api/orders", describeRoute({
+  tag: "Orders",
+  summary: "List orders",
+  description:
+    "Each order carries its product's name and price and its user's name. " +
+    "`search` matches the product name or the user's name or email; ties on `sortBy` are ordered by id.",
+  request: listOrdersRequest,
+  responses: { 200: { description: "A page of orders", schema: pageSchema(orderRowSchema) } },
+  example: { query: { page: "1", pageSize: "50", sortBy: "amount", sortDir: "desc" } },
+}), async (req, res) => {
+  const { sortDir, ...query } = parseRequest(req, listOrdersRequest).query;
+  res.json(await store.listOrders({ ...query, sortDir: toSortDir(sortDir) }));
+});
+
+router.get("/api/orders/:id", describeRoute({
+  tag: "Orders",
+  summary: "Get an order",
+  request: getOrderRequest,
+  responses: { 200: { description: "The order", schema: orderSchema }, 404: "No such order" },
+}), async (req, res) => {
+  const { id } = parseRequest(req, getOrderRequest).params;
+  const order = await store.getOrder(id);
+  if (!order) throw ApiError.notFound(`Order ${id} not found`);
+  res.json(order);
+});
+
+router.post("/api/orders", describeRoute({
+  tag: "Orders",
+  summary: "Create an order",
+  request: createOrderRequest,
+  responses: { 201: { description: "Created", schema: orderSchema }, 422: "User or product does not exist" },
+  example: { body: { userId: 1, productId: 2, amount: 19.99 } },
+}), async (req, res) => {
+  const { body } = parseRequest(req, createOrderRequest);
+  await assertOrderRefs(body);
+  const order = await store.createOrder({
+    ...body,
+    createdAt: body.createdAt ?? new Date().toISOString(),
   });
+  res.status(201).json(order);
+});
+
+// createdAt may be omitted on replace; the original timestamp is kept
+router.put("/api/orders/:id", describeRoute({
+  tag: "Orders",
+  summary: "Replace an order",
+  request: replaceOrderRequest,
+  responses: {
+    200: { description: "Updated", schema: orderSchema },
+    404: "No such order",
+    422: "User or product does not exist",
+  },
+  example: { body: { userId: 1, productId: 2, amount: 19.99 } },
+}), async (req, res) => {
+  const { params: { id }, body } = parseRequest(req, replaceOrderRequest);
+  if (!(await store.getOrder(id))) throw ApiError.notFound(`Order ${id} not found`);
+  await assertOrderRefs(body);
+  const { createdAt, ...rest } = body;
+  res.json(await store.updateOrder(id, createdAt ? { ...rest, createdAt } : rest));
+});
 
-  const total = rows.length;
-  const start = (page - 1) * pageSize;
-  const items = rows.slice(start, start + pageSize);
-  res.json({ items, total, page, pageSize });
-});
-
-router.get("/api/users/:id/orders", async (req, res) => {
-  const userId = Number(req.params.id);
-  const page = Math.max(1, Number(req.query.page || 1));
-  const pageSizeRaw = Number(req.query.pageSize || 50);
-  const pageSize = Math.max(1, Math.min(200, pageSizeRaw));
-  const all = db.orders
-    .filter((o) => o.userId === userId)
-    .sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
-  const total = all.length;
-  const start = (page - 1) * pageSize;
-  const items = all.slice(start, start + pageSize);
-  res.json({ items, total, page, pageSize });
+router.patch("/api/orders/:id", describeRoute({
+  tag: "Orders",
+  summary: "Update some of an order's fields",
+  request: patchOrderRequest,
+  responses: {
+    200: { description: "Updated", schema: orderSchema },
+    404: "No such order",
+    422: "User or product does not exist",
+  },
+  example: { body: { amount: 24.5 } },
+}), async (req, res) => {
+  const { params: { id }, body } = parseRequest(req, patchOrderRequest);
+  if (!(await store.getOrder(id))) throw ApiError.notFound(`Order ${id} not found`);
+  await assertOrderRefs(body);
+  res.json(await store.updateOrder(id, body));
+});
+
+router.delete("/api/orders/:id", describeRoute({
+  tag: "Orders",
+  summary: "Delete an order",
+  request: deleteOrderRequest,
+  responses: { 204: "Deleted", 404: "No such order" },
+}), async (req, res) => {
+  const { id } = parseRequest(req, deleteOrderRequest).params;
+  if (!(await store.deleteOrder(id))) throw ApiError.notFound(`Order ${id} not found`);
+  res.status(204).end();
 });
 
 // Org Chart / File Explorer endpoints
-router.get("/api/nodes/root", async (req, res) => {
-  const rootNodes = db.nodes.filter(node => node.parentId === null);
-  res.json(rootNodes);
+router.get("/api/nodes/root", describeRoute({
+  tag: "Org Chart",
+  summary: "Root nodes of the org tree",
+  responses: { 200: { description: "Top-level nodes", schema: z.array(nodeSchema) } },
+}), async (req, res) => {
+  res.json(await store.rootNodes());
+});
+
+router.get("/api/nodes/:id", describeRoute({
+  tag: "Org Chart",
+  summary: "Get a node with its path and subtree size",
+  request: getNodeRequest,
+  responses: { 200: { description: "The node", schema: nodeDetailSchema }, 404: "No such node" },
+  example: { params: { id: "root1-1" } },
+}), async (req, res) => {
+  const { id } = parseRequest(req, getNodeRequest).params;
+  const node = await store.getNodeDetail(id);
+  if (!node) throw ApiError.notFound(`Node ${id} not found`);
+  res.json(node);
+});
+
+router.get("/api/nodes/:id/children", describeRoute({
+  tag: "Org Chart",
+  summary: "Direct children of a node, a page at a time",
+  description:
+    "Children come in sibling order. Pass `nextCursor` back as `cursor` for the next page; it is null on the " +
+    "last one. A cursor marks a position rather than an offset, so edits between pages don't skip or repeat children.",
+  request: nodeChildrenRequest,
+  responses: {
+    200: { description: "A page of child nodes", schema: nodeChildrenPageSchema },
+    400: "Invalid cursor",
+  },
+  example: { params: { id: "root1" }, query: { pageSize: "100" } },
+}), async (req, res) => {
+  const { params, query } = parseRequest(req, nodeChildrenRequest);
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (query.cursor && (!cursor || cursor.sort[0].by !== SIBLING_ORDER[0].by || cursor.direction !== "after")) {
+    throw invalidCursor();
+  }
+
+  const page = await store.childNodes(params.id, { limit: query.pageSize, after: cursor && cursor.id });
+  const body: NodeChildrenPage = {
+    items: page.items,
+    total: page.total,
+    nextCursor:
+      page.next === null
+        ? null
+        : encodeCursor({ sort: SIBLING_ORDER, keys: [page.next], id: page.next, direction: "after" }),
+  };
+  res.json(body);
+});
+
+router.post("/api/nodes", describeRoute({
+  tag: "Org Chart",
+  summary: "Create a node",
+  description: "The new node has no children and goes after its siblings; its parent's `hasChildren` becomes true.",
+  request: createNodeRequest,
+  responses: {
+    201: { description: "Created", schema: nodeSchema },
+    422: "Parent does not exist",
+  },
+  example: { body: { name: "Platform team", parentId: "root1" } },
+}), async (req, res) => {
+  const { body } = parseRequest(req, createNodeRequest);
+  await assertNodeParent(body.parentId);
+  res.status(201).json(await store.createNode(body));
+});
+
+router.patch("/api/nodes/:id", describeRoute({
+  tag: "Org Chart",
+  summary: "Rename or move a node",
+  description:
+    "A new `parentId` moves the node with its whole subtree (`null` makes it a root). " +
+    "Both the old and the new parent's `hasChildren` are updated.",
+  request: patchNodeRequest,
+  responses: {
+    200: { description: "Updated", schema: nodeSchema },
+    404: "No such node",
+    409: "The new parent is the node itself or inside its subtree",
+    422: "Parent does not exist",
+  },
+  example: { params: { id: "root1-2" }, body: { parentId: "root2" } },
+}), async (req, res) => {
+  const { params: { id }, body } = parseRequest(req, patchNodeRequest);
+  if (!(await store.getNode(id))) throw ApiError.notFound(`Node ${id} not found`);
+  if (body.parentId !== undefined) await assertNodeParent(body.parentId, id);
+  res.json(await store.updateNode(id, body));
 });
 
-router.get("/api/nodes/:id/children", async (req, res) => {
-  const { id } = req.params;
-  const children = db.nodes.filter(node => node.parentId === id);
-  res.json(children);
+router.delete("/api/nodes/:id", describeRoute({
+  tag: "Org Chart",
+  summary: "Delete a node",
+  description:
+    "A node with children needs `children=cascade` (delete the subtree) or `children=rehome` " +
+    "(move the children, in order, to the deleted node's parent).",
+  request: deleteNodeRequest,
+  responses: { 204: "Deleted", 404: "No such node", 409: "Node has children and `children` is not set" },
+  example: { params: { id: "root1-2" }, query: { children: "rehome" } },
+}), async (req, res) => {
+  const { params: { id }, query } = parseRequest(req, deleteNodeRequest);
+  const node = await store.getNode(id);
+  if (!node) throw ApiError.notFound(`Node ${id} not found`);
+  if (node.hasChildren && !query.children) {
+    throw ApiError.conflict(`Node ${id} has children; pass children=cascade to delete them or children=rehome to keep them`);
+  }
+  await store.deleteNode(id, query.children ?? "cascade");
+  res.status(204).end();
 });
 
-router.get("/api/search", async (req, res) => {
-  const query = (req.query.q as string) || "";
-  const limit = Math.min(100, Math.max(1, Number(req.query.limit || 100)));
-  
-  if (!query.trim()) {
+router.get("/api/search", describeRoute({
+  tag: "Org Chart",
+  summary: "Search nodes by name",
+  description:
+    "Every word of `q` must match a word of the name: whole words score highest, then prefixes, then near misses. " +
+    "Results come best first, ties in tree order, with `highlights.name` marking what matched.",
+  request: nodeSearchRequest,
+  responses: {
+    200: { description: "Matches with their path from the root, best first", schema: z.array(searchResultSchema) },
+  },
+  example: { query: { q: "john", limit: "100" } },
+}), async (req, res) => {
+  const { q, limit } = parseRequest(req, nodeSearchRequest).query;
+
+  if (!q.trim()) {
     return res.json([]);
   }
-  
-  const lcQuery = query.toLowerCase();
-  const matchedNodes = db.nodes
-    .filter(node => node.name.toLowerCase().includes(lcQuery))
-    .slice(0, limit)
-    .map(node => ({
-      id: node.id,
-      name: node.name,
-      path: getNodePath(node.id)
-    }));
-  
-  res.json(matchedNodes);
+
+  const { items } = await store.searchNodes(q, limit);
+  res.json(items);
+});
+
+router.get("/api/search/all", describeRoute({
+  tag: "Search",
+  summary: "Search users, org nodes and quote symbols",
+  description:
+    "Runs `q` through the users, nodes and symbols search indexes at once (see /api/search for matching). " +
+    "Each group holds its `limit` best matches, best first, and the `total` that matched.",
+  request: globalSearchRequest,
+  responses: { 200: { description: "Best matches per group", schema: globalSearchResultSchema } },
+  example: { query: { q: "user 12", limit: "5" } },
+}), async (req, res) => {
+  const { q, limit } = parseRequest(req, globalSearchRequest).query;
+  const [users, nodes] = await Promise.all([store.searchUsers(q, limit), store.searchNodes(q, limit)]);
+  const body: GlobalSearchResult = { users, nodes, symbols: quoteStore.searchSymbols(q, limit) };
+  res.json(body);
+});
+
+// API docs, generated from the routes above; built on first request since
+// every route is registered by then
+let openApiDocument: OpenApiDocument | null = null;
+
+router.get("/api/openapi.json", describeRoute({
+  tag: "Docs",
+  summary: "OpenAPI document for this API",
+  responses: { 200: "OpenAPI 3.1 document" },
+}), (req, res) => {
+  openApiDocument ??= buildOpenApiDocument(router);
+  res.json(openApiDocument);
+});
+
+// Swagger UI's files, served from the installed package so the page loads
+// the version in the lockfile and nothing from a CDN
+router.use("/api/docs/assets", express.static(dirname(require.resolve("swagger-ui-dist/package.json"))));
+
+router.get("/api/docs", describeRoute({
+  tag: "Docs",
+  summary: "Interactive API docs (Swagger UI)",
+  responses: { 200: "HTML page" },
+}), (req, res) => {
+  res.type("html").send(DOCS_PAGE);
 });
+
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>API docs</title>
+    <link rel="stylesheet" href="/api/docs/assets/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script src="/api/docs/assets/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: "/api/openapi.json", dom_id: "#docs" });
+    </script>
+  </body>
+</html>`;
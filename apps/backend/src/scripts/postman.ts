@@ -0,0 +1,13 @@
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import { router } from "../routes";
+import { buildOpenApiDocument } from "../openapi";
+import { buildPostmanCollection } from "../postman";
+
+// Regenerates postman_collection.json at the repo root from the live router:
+//   pnpm postman
+const target = resolve(__dirname, "../../../../postman_collection.json");
+const collection = buildPostmanCollection(buildOpenApiDocument(router));
+
+writeFileSync(target, JSON.stringify(collection, null, 2) + "\n");
+console.log(`Wrote ${target}`);
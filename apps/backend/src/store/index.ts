@@ -0,0 +1,19 @@
+import { MemoryStore } from "./memory";
+import { SqliteStore } from "./sqlite";
+import type { Store } from "./types";
+
+export * from "./types";
+
+// Pick the persistence backend from STORE_DRIVER (memory | sqlite)
+export function createStore(driver = process.env.STORE_DRIVER || "memory"): Store {
+  switch (driver.toLowerCase()) {
+    case "memory":
+      return new MemoryStore();
+    case "sqlite":
+      return new SqliteStore(process.env.SQLITE_FILE || "data/backend.sqlite");
+    default:
+      throw new Error(`Unknown STORE_DRIVER "${driver}" (expected "memory" or "sqlite")`);
+  }
+}
+
+export const store = createStore();
@@ -0,0 +1,766 @@
+import { randomUUID } from "crypto";
+import type {
+  FilterOp,
+  MonthlySpend,
+  Node,
+  NodeDetail,
+  Order,
+  OrderRow,
+  Product,
+  TopProduct,
+  User,
+  UserDetail,
+  UserListRow,
+  UserOrder,
+  UserRow,
+} from "shared";
+import type { SeedData } from "../db";
+import { NodeTree } from "./nodeTree";
+import { nodeSearchIndex, productSearchIndex, SearchMatches, userSearchIndex } from "./searchIndex";
+import { SortedIdIndex, SortKey } from "./sortedIndex";
+import type {
+  ChildPage,
+  ChildPageQuery,
+  CursorPage,
+  CursorPosition,
+  NodeChildPolicy,
+  NodeInput,
+  OrderCursorQuery,
+  OrderInput,
+  OrderListQuery,
+  OrderSortKey,
+  Page,
+  PageQuery,
+  ProductInput,
+  ProductListQuery,
+  ProductSortKey,
+  SearchHits,
+  SearchResult,
+  SortDir,
+  Store,
+  UserCursorQuery,
+  UserFilter,
+  UserFilterClause,
+  UserInput,
+  UserListQuery,
+  UserScanQuery,
+  UserSearchHit,
+  UserSort,
+  UserSortKey,
+} from "./types";
+
+// Aggregates are kept in integer cents so repeated updates never drift
+type UserEntry = {
+  user: User;
+  createdAtMs: number;
+  orderCount: number;
+  orderCents: number;
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Code point order: what SQLite's default BINARY collation gives on UTF-8, so
+// both stores sort text alike. UTF-16 code units agree with it except that
+// surrogates (characters past U+FFFF) have to sort after the rest of the BMP.
+function compareText(a: string, b: string) {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    const x = a.charCodeAt(i);
+    const y = b.charCodeAt(i);
+    if (x === y) continue;
+    const xSurrogate = x >= 0xd800 && x <= 0xdfff;
+    const ySurrogate = y >= 0xd800 && y <= 0xdfff;
+    if (xSurrogate !== ySurrogate) return xSurrogate ? 1 : -1;
+    return x - y;
+  }
+  return a.length - b.length;
+}
+
+function compareSortKeys(a: SortKey, b: SortKey) {
+  return typeof a === "string" && typeof b === "string"
+    ? compareText(a, b)
+    : (a as number) - (b as number);
+}
+
+const COMPARE: Record<FilterOp, (a: number, b: number) => boolean> = {
+  eq: (a, b) => a === b,
+  gt: (a, b) => a > b,
+  gte: (a, b) => a >= b,
+  lt: (a, b) => a < b,
+  lte: (a, b) => a <= b,
+};
+
+// Compiled once per query; values are compared in the units the entry stores
+function clauseTest({ field, op, value }: UserFilterClause): (entry: UserEntry) => boolean {
+  const compare = COMPARE[op];
+  switch (field) {
+    case "createdAt": {
+      const ms = new Date(value).getTime();
+      return (entry) => compare(entry.createdAtMs, ms);
+    }
+    case "orderCount":
+      return (entry) => compare(entry.orderCount, Number(value));
+    case "orderTotal": {
+      const cents = toCents(Number(value));
+      return (entry) => compare(entry.orderCents, cents);
+    }
+    case "emailDomain": {
+      const suffix = `@${value}`;
+      return (entry) => entry.user.email.toLowerCase().endsWith(suffix);
+    }
+  }
+}
+
+// Index key of each sortable column, in the units the entry stores
+const SORT_VALUES: Record<UserSortKey, (entry: UserEntry) => SortKey> = {
+  id: (entry) => entry.user.id,
+  name: (entry) => entry.user.name,
+  email: (entry) => entry.user.email,
+  createdAt: (entry) => entry.createdAtMs,
+  orderCount: (entry) => entry.orderCount,
+  orderTotal: (entry) => entry.orderCents,
+};
+
+// Order of two (keys, id) positions under `sort`; ids break ties ascending
+function comparePositions(sort: UserSort, a: SortKey[], aId: number, b: SortKey[], bId: number) {
+  for (let i = 0; i < sort.length; i++) {
+    const c = compareSortKeys(a[i], b[i]);
+    if (c) return sort[i].dir === "ASC" ? c : -c;
+  }
+  return aId - bId;
+}
+
+const PRODUCT_SORT_VALUES: Record<ProductSortKey, (product: Product) => SortKey> = {
+  id: (product) => product.id,
+  name: (product) => product.name,
+  price: (product) => product.price,
+};
+
+const ORDER_SORT_VALUES: Record<OrderSortKey, (order: Order) => SortKey> = {
+  id: (order) => order.id,
+  createdAt: (order) => new Date(order.createdAt).getTime(),
+  amount: (order) => order.amount,
+  userId: (order) => order.userId,
+  productId: (order) => order.productId,
+};
+
+// Sorts in place by one key, ties in ascending id order. Products and orders
+// have no sorted indexes, so their lists sort the matching rows per request.
+function sortRows<T extends { id: number }>(rows: T[], value: (row: T) => SortKey, dir: SortDir): T[] {
+  return rows.sort((a, b) => {
+    const c = compareSortKeys(value(a), value(b));
+    return (dir === "ASC" ? c : -c) || a.id - b.id;
+  });
+}
+
+const pageOf = <T>(rows: T[], page: number, pageSize: number): Page<T> => ({
+  items: rows.slice((page - 1) * pageSize, page * pageSize),
+  total: rows.length,
+  page,
+  pageSize,
+});
+
+// Order count and spend in cents per product or month
+type SpendBucket = { orderCount: number; cents: number };
+
+function addToBucket<K>(buckets: Map<K, SpendBucket>, key: K, cents: number) {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.orderCount += 1;
+    bucket.cents += cents;
+  } else {
+    buckets.set(key, { orderCount: 1, cents });
+  }
+}
+
+// Newest first; ties in ascending id order
+function compareOrders(a: Order, b: Order) {
+  return (
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() ||
+    a.id - b.id
+  );
+}
+
+// Positional window for a keyset page over `total` ordered rows; `rank`
+// counts the rows before the cursor position (inclusive of it when asked)
+function cursorWindow(
+  total: number,
+  pageSize: number,
+  cursor: CursorPosition | null,
+  rank: (inclusive: boolean) => number
+): [number, number] {
+  if (cursor && cursor.direction === "before") {
+    const end = rank(false);
+    return [Math.max(0, end - pageSize), end];
+  }
+  const start = cursor ? rank(true) : 0;
+  return [start, Math.min(total, start + pageSize)];
+}
+
+// Held in process memory; wiped on every restart
+export class MemoryStore implements Store {
+  private users = new Map<number, UserEntry>();
+  private userIdByEmail = new Map<string, number>();
+  private nextUserId = 1;
+  private products = new Map<number, Product>();
+  private nextProductId = 1;
+  private orders = new Map<number, Order>();
+  private ordersByUser = new Map<number, Order[]>();
+  private nextOrderId = 1;
+  private nodes = new NodeTree();
+
+  private indexes: Record<UserSortKey, SortedIdIndex> = {
+    id: new SortedIdIndex((id) => id, compareSortKeys),
+    name: new SortedIdIndex((id) => SORT_VALUES.name(this.entry(id)), compareSortKeys),
+    email: new SortedIdIndex((id) => SORT_VALUES.email(this.entry(id)), compareSortKeys),
+    createdAt: new SortedIdIndex((id) => SORT_VALUES.createdAt(this.entry(id)), compareSortKeys),
+    orderCount: new SortedIdIndex((id) => SORT_VALUES.orderCount(this.entry(id)), compareSortKeys),
+    orderTotal: new SortedIdIndex((id) => SORT_VALUES.orderTotal(this.entry(id)), compareSortKeys),
+  };
+  private userSearch = userSearchIndex();
+  private productSearch = productSearchIndex();
+  private nodeSearch = nodeSearchIndex();
+
+  async init() {}
+
+  async replaceData(data: SeedData) {
+    this.users = new Map();
+    this.userIdByEmail = new Map();
+    this.nextUserId = 1;
+    for (const user of data.users) this.addUser(user);
+    this.products = new Map();
+    this.nextProductId = 1;
+    for (const product of data.products) this.addProduct(product);
+    this.orders = new Map();
+    this.ordersByUser = new Map();
+    this.nextOrderId = 1;
+    for (const order of data.orders) {
+      this.addOrder(order);
+      const entry = this.users.get(order.userId);
+      if (entry) {
+        entry.orderCount += 1;
+        entry.orderCents += toCents(order.amount);
+      }
+    }
+    for (const index of Object.values(this.indexes)) index.rebuild(this.users.keys());
+    this.userSearch.rebuild(data.users);
+    this.productSearch.rebuild(data.products);
+  }
+
+  async replaceNodes(nodes: Node[]) {
+    this.nodes.rebuild(nodes);
+    this.nodeSearch.rebuild(nodes);
+  }
+
+  async listUsers({ page, pageSize, search, filter, sort }: UserListQuery): Promise<Page<UserListRow>> {
+    const start = (page - 1) * pageSize;
+    const found = this.userSearch.search(search);
+    const matches = this.userMatcher(found, filter);
+
+    // Without a search or filter the page is read straight off the index
+    if (!matches) {
+      const items = this.sliceIds(sort, start, pageSize).map((id) => this.toRow(this.entry(id)));
+      return { items, total: this.users.size, page, pageSize };
+    }
+
+    const items: UserListRow[] = [];
+    let total = 0;
+    for (const id of this.sortedIds(sort)) {
+      if (!matches(id)) continue;
+      if (total >= start && items.length < pageSize) items.push(this.toListRow(id, found));
+      total++;
+    }
+    return { items, total, page, pageSize };
+  }
+
+  async listUsersByCursor({ pageSize, search, filter, sort, cursor }: UserCursorQuery): Promise<CursorPage<UserListRow>> {
+    const keys = cursor && this.positionKeys(sort, cursor.keys);
+    const found = this.userSearch.search(search);
+    const matches = this.userMatcher(found, filter);
+
+    if (!matches) {
+      const total = this.users.size;
+      const [start, end] = cursorWindow(total, pageSize, cursor, (inclusive) =>
+        this.rankPosition(sort, keys!, cursor!.id, inclusive)
+      );
+      const items = this.sliceIds(sort, start, end - start).map((id) => this.toRow(this.entry(id)));
+      return { items, total, hasPrev: start > 0, hasNext: end < total };
+    }
+
+    const ids: number[] = [];
+    for (const id of this.sortedIds(sort)) {
+      if (matches(id)) ids.push(id);
+    }
+    const [start, end] = cursorWindow(ids.length, pageSize, cursor, (inclusive) => {
+      const i = ids.findIndex((id) => {
+        const c = comparePositions(sort, this.sortKeys(sort, id), id, keys!, cursor!.id);
+        return inclusive ? c > 0 : c >= 0;
+      });
+      return i === -1 ? ids.length : i;
+    });
+    const items = ids.slice(start, end).map((id) => this.toListRow(id, found));
+    return { items, total: ids.length, hasPrev: start > 0, hasNext: end < ids.length };
+  }
+
+  async scanUsers({ search, filter, sort, after, limit }: UserScanQuery): Promise<UserRow[]> {
+    const matches = this.userMatcher(this.userSearch.search(search), filter);
+    const rows: UserRow[] = [];
+    const from = after ? this.rankPosition(sort, this.positionKeys(sort, after.keys), after.id, true) : 0;
+    for (const id of this.idsFrom(sort, from)) {
+      if (matches && !matches(id)) continue;
+      rows.push(this.toRow(this.entry(id)));
+      if (rows.length === limit) break;
+    }
+    return rows;
+  }
+
+  async getUsersByIds(ids: Iterable<number>, sort: UserSort): Promise<UserRow[]> {
+    const keyed: { id: number; keys: SortKey[] }[] = [];
+    for (const id of new Set(ids)) {
+      if (this.users.has(id)) keyed.push({ id, keys: this.sortKeys(sort, id) });
+    }
+    keyed.sort((a, b) => comparePositions(sort, a.keys, a.id, b.keys, b.id));
+    return keyed.map(({ id }) => this.toRow(this.entry(id)));
+  }
+
+  async listUserOrders(userId: number, { page, pageSize }: PageQuery): Promise<Page<UserOrder>> {
+    const all = this.sortedOrdersOf(userId);
+    const total = all.length;
+    const start = (page - 1) * pageSize;
+    const items = all.slice(start, start + pageSize).map((order) => this.toUserOrder(order));
+    return { items, total, page, pageSize };
+  }
+
+  async listUserOrdersByCursor(userId: number, { pageSize, cursor }: OrderCursorQuery): Promise<CursorPage<UserOrder>> {
+    const all = this.sortedOrdersOf(userId);
+    const [start, end] = cursorWindow(all.length, pageSize, cursor, (inclusive) => {
+      const probe = { createdAt: String(cursor!.keys[0]), id: cursor!.id } as Order;
+      const i = all.findIndex((o) => {
+        const c = compareOrders(o, probe);
+        return inclusive ? c > 0 : c >= 0;
+      });
+      return i === -1 ? all.length : i;
+    });
+    return {
+      items: all.slice(start, end).map((order) => this.toUserOrder(order)),
+      total: all.length,
+      hasPrev: start > 0,
+      hasNext: end < all.length,
+    };
+  }
+
+  async searchUsers(query: string, limit: number): Promise<SearchHits<UserSearchHit>> {
+    const found = this.userSearch.search(query);
+    if (!found) return { items: [], total: 0 };
+    const items = found.ranked(limit).map(({ key: id, score }) => ({
+      ...this.toRow(this.entry(id)),
+      score,
+      highlights: found.highlights(id),
+    }));
+    return { items, total: found.size };
+  }
+
+  async getUser(id: number) {
+    const entry = this.users.get(id);
+    return entry ? this.toRow(entry) : null;
+  }
+
+  async getUserDetail(id: number, topProducts: number): Promise<UserDetail | null> {
+    const entry = this.users.get(id);
+    if (!entry) return null;
+
+    const byProduct = new Map<number, SpendBucket>();
+    const byMonth = new Map<string, SpendBucket>();
+    let firstOrderAt: string | null = null;
+    let lastOrderAt: string | null = null;
+    // createdAt strings are compared as text, like the SQLite store does
+    for (const order of this.ordersByUser.get(id) || []) {
+      const cents = toCents(order.amount);
+      addToBucket(byProduct, order.productId, cents);
+      addToBucket(byMonth, order.createdAt.slice(0, 7), cents);
+      if (firstOrderAt === null || order.createdAt < firstOrderAt) firstOrderAt = order.createdAt;
+      if (lastOrderAt === null || order.createdAt > lastOrderAt) lastOrderAt = order.createdAt;
+    }
+
+    const top: TopProduct[] = Array.from(byProduct)
+      .sort(([aId, a], [bId, b]) => b.cents - a.cents || b.orderCount - a.orderCount || aId - bId)
+      .slice(0, topProducts)
+      .map(([productId, { orderCount, cents }]) => ({
+        productId,
+        productName: this.products.get(productId)?.name ?? null,
+        orderCount,
+        total: cents / 100,
+      }));
+    const monthlySpend: MonthlySpend[] = Array.from(byMonth)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([month, { orderCount, cents }]) => ({ month, orderCount, total: cents / 100 }));
+
+    return {
+      ...this.toRow(entry),
+      averageOrder: entry.orderCount ? Math.round(entry.orderCents / entry.orderCount) / 100 : 0,
+      firstOrderAt,
+      lastOrderAt,
+      topProducts: top,
+      monthlySpend,
+    };
+  }
+
+  async findUserIdByEmail(email: string) {
+    return this.userIdByEmail.get(email.toLowerCase()) ?? null;
+  }
+
+  async createUser(input: UserInput) {
+    const entry = this.addUser({ id: this.nextUserId, ...input });
+    for (const index of Object.values(this.indexes)) index.insert(entry.user.id);
+    this.userSearch.add(entry.user);
+    return this.toRow(entry);
+  }
+
+  async updateUser(id: number, changes: Partial<UserInput>) {
+    const entry = this.users.get(id);
+    if (!entry) return null;
+    for (const index of Object.values(this.indexes)) index.remove(id);
+    this.userIdByEmail.delete(entry.user.email.toLowerCase());
+    entry.user = { ...entry.user, ...changes, id };
+    entry.createdAtMs = new Date(entry.user.createdAt).getTime();
+    this.userIdByEmail.set(entry.user.email.toLowerCase(), id);
+    for (const index of Object.values(this.indexes)) index.insert(id);
+    this.userSearch.add(entry.user);
+    return this.toRow(entry);
+  }
+
+  async deleteUser(id: number) {
+    const entry = this.users.get(id);
+    if (!entry) return false;
+    for (const index of Object.values(this.indexes)) index.remove(id);
+    this.userSearch.remove(id);
+    for (const order of this.ordersByUser.get(id) || []) this.orders.delete(order.id);
+    this.ordersByUser.delete(id);
+    this.userIdByEmail.delete(entry.user.email.toLowerCase());
+    this.users.delete(id);
+    return true;
+  }
+
+  async listProducts({ page, pageSize, search, sortBy, sortDir }: ProductListQuery): Promise<Page<Product>> {
+    const found = this.productSearch.search(search);
+    const rows = Array.from(this.products.values()).filter((product) => !found || found.has(product.id));
+    return pageOf(sortRows(rows, PRODUCT_SORT_VALUES[sortBy], sortDir), page, pageSize);
+  }
+
+  async getProduct(id: number) {
+    return this.products.get(id) ?? null;
+  }
+
+  async createProduct(input: ProductInput) {
+    const product = this.addProduct({ id: this.nextProductId, ...input });
+    this.productSearch.add(product);
+    return product;
+  }
+
+  async updateProduct(id: number, changes: Partial<ProductInput>) {
+    const current = this.products.get(id);
+    if (!current) return null;
+    const next: Product = { ...current, ...changes, id };
+    this.products.set(id, next);
+    this.productSearch.add(next);
+    return next;
+  }
+
+  async countProductOrders(id: number) {
+    let count = 0;
+    for (const order of this.orders.values()) if (order.productId === id) count++;
+    return count;
+  }
+
+  async deleteProduct(id: number) {
+    if (!this.products.has(id)) return false;
+    for (const order of Array.from(this.orders.values())) {
+      if (order.productId === id) await this.deleteOrder(order.id);
+    }
+    this.products.delete(id);
+    this.productSearch.remove(id);
+    return true;
+  }
+
+  async listOrders({ page, pageSize, search, sortBy, sortDir }: OrderListQuery): Promise<Page<OrderRow>> {
+    const lcSearch = search.toLowerCase();
+    const matches = Array.from(this.orders.values()).filter((order) => {
+      if (!lcSearch) return true;
+      const product = this.products.get(order.productId);
+      const user = this.users.get(order.userId)?.user;
+      return (
+        !!product?.name.toLowerCase().includes(lcSearch) ||
+        !!user?.name.toLowerCase().includes(lcSearch) ||
+        !!user?.email.toLowerCase().includes(lcSearch)
+      );
+    });
+    const { items, ...rest } = pageOf(sortRows(matches, ORDER_SORT_VALUES[sortBy], sortDir), page, pageSize);
+    return { items: items.map((order) => this.toOrderRow(order)), ...rest };
+  }
+
+  async getOrder(id: number) {
+    return this.orders.get(id) ?? null;
+  }
+
+  async createOrder(input: OrderInput) {
+    const order: Order = { id: this.nextOrderId, ...input };
+    this.addOrder(order);
+    this.applyToUser(order, 1);
+    return order;
+  }
+
+  async updateOrder(id: number, changes: Partial<OrderInput>) {
+    const current = this.orders.get(id);
+    if (!current) return null;
+    const next: Order = { ...current, ...changes, id };
+    this.applyToUser(current, -1);
+    this.removeOrder(current);
+    this.addOrder(next);
+    this.applyToUser(next, 1);
+    return next;
+  }
+
+  async deleteOrder(id: number) {
+    const current = this.orders.get(id);
+    if (!current) return false;
+    this.applyToUser(current, -1);
+    this.removeOrder(current);
+    return true;
+  }
+
+  async rootNodes() {
+    return this.nodes.roots();
+  }
+
+  async childNodes(parentId: string, { limit, after }: ChildPageQuery): Promise<ChildPage> {
+    return this.nodes.childPage(parentId, after, limit);
+  }
+
+  async searchNodes(query: string, limit: number): Promise<SearchHits<SearchResult>> {
+    const found = this.nodeSearch.search(query);
+    if (!found) return { items: [], total: 0 };
+    const items = found.ranked(limit).map(({ key: id, score }) => ({
+      id,
+      name: this.nodes.get(id)!.name,
+      path: this.nodes.path(id),
+      score,
+      highlights: found.highlights(id),
+    }));
+    return { items, total: found.size };
+  }
+
+  async getNode(id: string) {
+    return this.nodes.get(id) ?? null;
+  }
+
+  async getNodeDetail(id: string): Promise<NodeDetail | null> {
+    const node = this.nodes.get(id);
+    if (!node) return null;
+    return { ...node, path: this.nodes.path(id), descendantCount: this.nodes.descendantCount(id) };
+  }
+
+  async isNodeWithin(id: string, ancestorId: string) {
+    return this.nodes.isWithin(id, ancestorId);
+  }
+
+  async createNode(input: NodeInput) {
+    const node: Node = { id: randomUUID(), parentId: input.parentId, name: input.name, hasChildren: false };
+    this.nodes.add(node);
+    this.nodeSearch.add(node);
+    return node;
+  }
+
+  async updateNode(id: string, changes: Partial<NodeInput>) {
+    const current = this.nodes.get(id);
+    if (!current) return null;
+    if (changes.parentId !== undefined) this.nodes.move(id, changes.parentId);
+    if (changes.name !== undefined && changes.name !== current.name) {
+      this.nodes.rename(id, changes.name);
+      this.nodeSearch.add(this.nodes.get(id)!);
+    }
+    return this.nodes.get(id)!;
+  }
+
+  async deleteNode(id: string, children: NodeChildPolicy) {
+    const removed = this.nodes.remove(id, children);
+    for (const removedId of removed) this.nodeSearch.remove(removedId);
+    return removed.length > 0;
+  }
+
+  private entry(id: number): UserEntry {
+    return this.users.get(id)!;
+  }
+
+  // Search AND (all | any of the filter clauses); null when every user matches
+  private userMatcher(found: SearchMatches<number> | null, filter: UserFilter): ((id: number) => boolean) | null {
+    const tests = filter.clauses.map(clauseTest);
+    if (!found && tests.length === 0) return null;
+
+    return (id) => {
+      if (found && !found.has(id)) return false;
+      if (tests.length === 0) return true;
+      const entry = this.entry(id);
+      return filter.match === "all" ? tests.every((test) => test(entry)) : tests.some((test) => test(entry));
+    };
+  }
+
+  // Ids in `sort` order from position `from`, which must start a run of equal
+  // first keys. The first key's index supplies the runs; later keys only
+  // reorder within a run, so a page sorts just the runs it reads.
+  private *sortedIds(sort: UserSort, from = 0): Generator<number> {
+    const [first, ...rest] = sort;
+    for (const run of this.indexes[first.by].runs(first.dir, from)) {
+      if (rest.length === 0 || run.length === 1) {
+        yield* run;
+        continue;
+      }
+      const keyed = run.map((id) => ({ id, keys: this.sortKeys(rest, id) }));
+      keyed.sort((a, b) => comparePositions(rest, a.keys, a.id, b.keys, b.id));
+      for (const { id } of keyed) yield id;
+    }
+  }
+
+  // Ids in `sort` order from any position `start`
+  private *idsFrom(sort: UserSort, start: number): Generator<number> {
+    const [first] = sort;
+    const index = this.indexes[first.by];
+    if (start >= index.size) return;
+    if (sort.length === 1) {
+      for (let pos = start; pos < index.size; pos++) yield index.at(pos, first.dir);
+      return;
+    }
+    let pos = index.runStart(start, first.dir);
+    for (const id of this.sortedIds(sort, pos)) {
+      if (pos++ >= start) yield id;
+    }
+  }
+
+  // `count` ids from position `start` in `sort` order
+  private sliceIds(sort: UserSort, start: number, count: number): number[] {
+    const [first] = sort;
+    if (sort.length === 1) return this.indexes[first.by].slice(start, count, first.dir);
+    const ids: number[] = [];
+    if (count <= 0) return ids;
+    for (const id of this.idsFrom(sort, start)) {
+      ids.push(id);
+      if (ids.length === count) break;
+    }
+    return ids;
+  }
+
+  // Users before the position (keys, id) in `sort` order, counting one exactly
+  // at it when `inclusive` (see SortedIdIndex.rank). Only the run of the
+  // position's first key is compared row by row.
+  private rankPosition(sort: UserSort, keys: SortKey[], id: number, inclusive: boolean): number {
+    const [first] = sort;
+    const index = this.indexes[first.by];
+    if (sort.length === 1) return index.rank(keys[0], id, first.dir, inclusive);
+    let pos = index.rank(keys[0], -Infinity, first.dir, false);
+    for (const other of this.sortedIds(sort, pos)) {
+      const c = comparePositions(sort, this.sortKeys(sort, other), other, keys, id);
+      if (c > 0 || (c === 0 && !inclusive)) break;
+      pos++;
+    }
+    return pos;
+  }
+
+  private sortKeys(sort: UserSort, id: number): SortKey[] {
+    const entry = this.entry(id);
+    return sort.map(({ by }) => SORT_VALUES[by](entry));
+  }
+
+  // Cursor keys (row-level values) as index keys
+  private positionKeys(sort: UserSort, keys: SortKey[]): SortKey[] {
+    return sort.map(({ by }, i) => this.indexKey(by, keys[i]));
+  }
+
+  // Convert a row-level sort value (as carried by cursors) to the index key
+  private indexKey(sortBy: UserSortKey, value: SortKey): SortKey {
+    switch (sortBy) {
+      case "createdAt":
+        return new Date(value).getTime();
+      case "orderTotal":
+        return toCents(Number(value));
+      default:
+        return value;
+    }
+  }
+
+  private sortedOrdersOf(userId: number) {
+    return (this.ordersByUser.get(userId) || []).slice().sort(compareOrders);
+  }
+
+  private toUserOrder(order: Order): UserOrder {
+    const product = this.products.get(order.productId);
+    return { ...order, productName: product?.name ?? null, productPrice: product?.price ?? null };
+  }
+
+  private toOrderRow(order: Order): OrderRow {
+    return { ...this.toUserOrder(order), userName: this.users.get(order.userId)?.user.name ?? null };
+  }
+
+  private toRow({ user, orderCount, orderCents }: UserEntry): UserRow {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      createdAt: user.createdAt,
+      orderCount,
+      orderTotal: orderCents / 100,
+    };
+  }
+
+  // A listed row, with what matched the search if there was one
+  private toListRow(id: number, found: SearchMatches<number> | null): UserListRow {
+    const row = this.toRow(this.entry(id));
+    return found ? { ...row, highlights: found.highlights(id) } : row;
+  }
+
+  private addUser(user: User): UserEntry {
+    const entry: UserEntry = {
+      user,
+      createdAtMs: new Date(user.createdAt).getTime(),
+      orderCount: 0,
+      orderCents: 0,
+    };
+    this.users.set(user.id, entry);
+    this.userIdByEmail.set(user.email.toLowerCase(), user.id);
+    this.nextUserId = Math.max(this.nextUserId, user.id + 1);
+    return entry;
+  }
+
+  private addProduct(product: Product) {
+    this.products.set(product.id, product);
+    this.nextProductId = Math.max(this.nextProductId, product.id + 1);
+    return product;
+  }
+
+  private addOrder(order: Order) {
+    this.orders.set(order.id, order);
+    const list = this.ordersByUser.get(order.userId);
+    if (list) list.push(order);
+    else this.ordersByUser.set(order.userId, [order]);
+    this.nextOrderId = Math.max(this.nextOrderId, order.id + 1);
+  }
+
+  private removeOrder(order: Order) {
+    this.orders.delete(order.id);
+    const list = this.ordersByUser.get(order.userId);
+    if (!list) return;
+    const i = list.findIndex((o) => o.id === order.id);
+    if (i !== -1) list.splice(i, 1);
+  }
+
+  // Add (sign = 1) or retract (sign = -1) one order from its user's aggregates,
+  // repositioning the user in the aggregate-keyed indexes
+  private applyToUser(order: Order, sign: 1 | -1) {
+    const entry = this.users.get(order.userId);
+    if (!entry) return;
+    this.indexes.orderCount.remove(entry.user.id);
+    this.indexes.orderTotal.remove(entry.user.id);
+    entry.orderCount += sign;
+    entry.orderCents += sign * toCents(order.amount);
+    this.indexes.orderCount.insert(entry.user.id);
+    this.indexes.orderTotal.insert(entry.user.id);
+  }
+}
@@ -0,0 +1,253 @@
+import type { Node } from "shared";
+import type { ChildPage, NodeChildPolicy, NodePathEntry } from "./types";
+
+type Entry = {
+  node: Node;
+  // Order of joining the parent (adding or moving); siblings are listed by
+  // it, like SQLite's rowid
+  seq: number;
+  depth: number;
+  // Nodes in the subtree, the node itself included
+  size: number;
+};
+
+// The org tree indexed for lookups that never scan: nodes by id and each
+// parent's children in the order they joined it (roots under null), plus every node's
+// depth and subtree size kept current on each write. Ancestors and "is X
+// under Y" climb parent links, so they cost the depth, not the tree size.
+// Materialized paths would make those O(1) but cost depth² memory on a deep
+// chain, and Euler-tour numbers would make every write renumber the tree.
+export class NodeTree {
+  private entries = new Map<string, Entry>();
+  private childIds = new Map<string | null, string[]>();
+  private nextSeq = 1;
+
+  get size() {
+    return this.entries.size;
+  }
+
+  // Nodes in tree order; depths and sizes come from one pass over them
+  rebuild(nodes: Iterable<Node>) {
+    this.entries = new Map();
+    this.childIds = new Map();
+    this.nextSeq = 1;
+    for (const node of nodes) {
+      this.entries.set(node.id, { node, seq: this.nextSeq++, depth: 0, size: 1 });
+      this.siblingsOf(node.parentId, true).push(node.id);
+    }
+
+    // Depth-first from the roots without recursion (chains can be very deep),
+    // then sizes bottom-up in reverse visiting order
+    const order: Entry[] = [];
+    const stack = [...(this.childIds.get(null) ?? [])].reverse().map((id) => this.entries.get(id)!);
+    while (stack.length) {
+      const entry = stack.pop()!;
+      order.push(entry);
+      const children = this.childIds.get(entry.node.id) ?? [];
+      for (let i = children.length - 1; i >= 0; i--) {
+        const child = this.entries.get(children[i])!;
+        child.depth = entry.depth + 1;
+        stack.push(child);
+      }
+    }
+    for (let i = order.length - 1; i >= 0; i--) {
+      const { node, size } = order[i];
+      if (node.parentId !== null) this.entries.get(node.parentId)!.size += size;
+    }
+  }
+
+  get(id: string): Node | undefined {
+    return this.entries.get(id)?.node;
+  }
+
+  roots(): Node[] {
+    return this.childrenOf(null);
+  }
+
+  // Up to `limit` children after sibling position `after` (null: from the
+  // first), and the position to go on from when more are left. Positions are
+  // seq numbers, which start at 1 like SQLite's rowid.
+  childPage(parentId: string, after: number | null, limit: number): ChildPage {
+    const ids = this.childIds.get(parentId) ?? [];
+    const start = after === null ? 0 : this.siblingIndex(ids, after + 1);
+    const page = ids.slice(start, start + limit).map((id) => this.entries.get(id)!);
+    const more = start + limit < ids.length;
+    return {
+      items: page.map((entry) => entry.node),
+      total: ids.length,
+      next: more ? page[page.length - 1].seq : null,
+    };
+  }
+
+  // Root first, including the node itself; empty for an unknown id
+  path(id: string): NodePathEntry[] {
+    const path: NodePathEntry[] = [];
+    for (let entry = this.entries.get(id); entry; entry = this.parentEntry(entry)) {
+      path.push({ id: entry.node.id, name: entry.node.name });
+    }
+    return path.reverse();
+  }
+
+  // Nodes below `id`, not counting itself
+  descendantCount(id: string): number {
+    const entry = this.entries.get(id);
+    return entry ? entry.size - 1 : 0;
+  }
+
+  // Whether `id` is `ancestorId` or somewhere below it
+  isWithin(id: string, ancestorId: string): boolean {
+    const ancestor = this.entries.get(ancestorId);
+    let entry = this.entries.get(id);
+    if (!ancestor) return false;
+    while (entry && entry.depth > ancestor.depth) entry = this.parentEntry(entry);
+    return entry === ancestor;
+  }
+
+  // The new node goes last among its siblings; its parent must exist
+  add(node: Node) {
+    const parent = node.parentId === null ? undefined : this.entries.get(node.parentId);
+    this.entries.set(node.id, { node, seq: this.nextSeq++, depth: parent ? parent.depth + 1 : 0, size: 1 });
+    this.siblingsOf(node.parentId, true).push(node.id);
+    this.resize(parent, 1);
+    if (parent) this.syncHasChildren(parent);
+  }
+
+  rename(id: string, name: string) {
+    const entry = this.entries.get(id);
+    if (entry) entry.node = { ...entry.node, name };
+  }
+
+  // Moves `id` with its subtree, last among its new siblings; callers rule
+  // out cycles first (isWithin)
+  move(id: string, parentId: string | null) {
+    const entry = this.entries.get(id);
+    if (!entry || entry.node.parentId === parentId) return;
+    const oldParent = this.parentEntry(entry);
+    this.detach(entry);
+    this.resize(oldParent, -entry.size);
+
+    entry.node = { ...entry.node, parentId };
+    entry.seq = this.nextSeq++;
+    const parent = this.parentEntry(entry);
+    this.attach(entry);
+    this.resize(parent, entry.size);
+    this.setDepth(entry, parent ? parent.depth + 1 : 0);
+    if (oldParent) this.syncHasChildren(oldParent);
+    if (parent) this.syncHasChildren(parent);
+  }
+
+  // Returns the ids deleted: the subtree for `cascade`, else just `id`, whose
+  // children join its parent's in insertion order
+  remove(id: string, children: NodeChildPolicy): string[] {
+    const entry = this.entries.get(id);
+    if (!entry) return [];
+    const parent = this.parentEntry(entry);
+    const childIds = this.childIds.get(id) ?? [];
+    this.detach(entry);
+    this.childIds.delete(id);
+
+    let removed = [id];
+    if (children === "cascade") {
+      removed = this.subtree(id, childIds);
+      this.resize(parent, -entry.size);
+    } else {
+      this.resize(parent, -1);
+      const parentId = entry.node.parentId;
+      for (const childId of childIds) {
+        const child = this.entries.get(childId)!;
+        child.node = { ...child.node, parentId };
+        this.setDepth(child, entry.depth);
+      }
+      // One merge rather than a splice per child, for very wide nodes
+      if (childIds.length) this.childIds.set(parentId, this.mergeBySeq(this.siblingsOf(parentId, false), childIds));
+    }
+    for (const removedId of removed) {
+      this.entries.delete(removedId);
+      this.childIds.delete(removedId);
+    }
+    if (parent) this.syncHasChildren(parent);
+    return removed;
+  }
+
+  private childrenOf(parentId: string | null): Node[] {
+    return (this.childIds.get(parentId) ?? []).map((id) => this.entries.get(id)!.node);
+  }
+
+  private parentEntry(entry: Entry): Entry | undefined {
+    return entry.node.parentId === null ? undefined : this.entries.get(entry.node.parentId);
+  }
+
+  private siblingsOf(parentId: string | null, create: boolean): string[] {
+    let ids = this.childIds.get(parentId);
+    if (!ids && create) this.childIds.set(parentId, (ids = []));
+    return ids ?? [];
+  }
+
+  // Position of `seq` among siblings, which are kept in seq order
+  private siblingIndex(ids: string[], seq: number): number {
+    let lo = 0;
+    let hi = ids.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.entries.get(ids[mid])!.seq < seq) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  private detach(entry: Entry) {
+    const ids = this.siblingsOf(entry.node.parentId, false);
+    const i = this.siblingIndex(ids, entry.seq);
+    if (ids[i] === entry.node.id) ids.splice(i, 1);
+    if (!ids.length) this.childIds.delete(entry.node.parentId);
+  }
+
+  private attach(entry: Entry) {
+    const ids = this.siblingsOf(entry.node.parentId, true);
+    ids.splice(this.siblingIndex(ids, entry.seq), 0, entry.node.id);
+  }
+
+  private mergeBySeq(a: string[], b: string[]): string[] {
+    const seqOf = (id: string) => this.entries.get(id)!.seq;
+    const merged: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) merged.push(seqOf(a[i]) < seqOf(b[j]) ? a[i++] : b[j++]);
+    while (i < a.length) merged.push(a[i++]);
+    while (j < b.length) merged.push(b[j++]);
+    return merged;
+  }
+
+  // Adds `delta` to the size of `entry` and every ancestor
+  private resize(entry: Entry | undefined, delta: number) {
+    for (; entry; entry = this.parentEntry(entry)) entry.size += delta;
+  }
+
+  private setDepth(entry: Entry, depth: number) {
+    const shift = depth - entry.depth;
+    if (shift === 0) return;
+    const stack = [entry];
+    while (stack.length) {
+      const current = stack.pop()!;
+      current.depth += shift;
+      for (const childId of this.childIds.get(current.node.id) ?? []) stack.push(this.entries.get(childId)!);
+    }
+  }
+
+  // `id` and everything under it, given its children
+  private subtree(id: string, childIds: string[]): string[] {
+    const ids = [id];
+    const stack = [...childIds];
+    while (stack.length) {
+      const current = stack.pop()!;
+      ids.push(current);
+      for (const childId of this.childIds.get(current) ?? []) stack.push(childId);
+    }
+    return ids;
+  }
+
+  private syncHasChildren(entry: Entry) {
+    const hasChildren = this.childIds.has(entry.node.id);
+    if (entry.node.hasChildren !== hasChildren) entry.node = { ...entry.node, hasChildren };
+  }
+}
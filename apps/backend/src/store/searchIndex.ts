@@ -0,0 +1,305 @@
+import type { Highlight, Highlights } from "shared";
+
+// In-process full-text index shared by both stores, so a search matches and
+// ranks the same records whichever store is active. Text is split into words
+// (runs of letters and digits, compared lowercased); every query word must
+// match some word of the record:
+//   - exactly, or as a prefix of it ("jo" finds "Johnson"), or failing both,
+//   - within a small edit distance (typos, "jhon" finds "John"): one edit
+//     from 4 letters, two from 8, with the first letter right.
+
+// Base scores per kind of match, scaled by the field's weight
+const EXACT_SCORE = 3;
+const PREFIX_SCORE = 2;
+const FUZZY_SCORE = 1;
+
+// Bulk rebuild once this many removed records linger in the postings
+const COMPACT_AFTER = 1024;
+
+type Token = { term: string; start: number; end: number };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    tokens.push({ term: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+// Typos tolerated in a query word of this length
+function maxEdits(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+// Edit distance counting a swap of neighbouring letters as one edit; anything
+// over `max` comes back as max + 1 without finishing the table
+function boundedDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1);
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return Math.min(prev[b.length], max + 1);
+}
+
+// A query word, with the terms it matched by edit distance (and how far off)
+type WordMatch = {
+  word: string;
+  // Set when no term matched exactly or by prefix
+  fuzzy: Map<string, number> | null;
+};
+
+// A record as indexed: its key plus the text of each field
+export type SearchRecord<K, F extends string> = { id: K } & Record<F, string>;
+
+export interface SearchMatches<K> {
+  readonly size: number;
+  has(key: K): boolean;
+  // Matching keys in index order (the order records were added)
+  keys(): K[];
+  // Best first; equal scores keep index order
+  ranked(limit: number): { key: K; score: number }[];
+  // Ranges of each field that matched, for a matching key
+  highlights(key: K): Highlights;
+}
+
+// Records (users, products, nodes) by key, each with a few weighted text
+// fields. Postings hold record ordinals rather than keys: ordinal * fields +
+// field, in a flat array per term. Removing a record only forgets its ordinal;
+// stale postings are skipped on read and dropped by the next compaction.
+export class SearchIndex<K, F extends string> {
+  private readonly fields: F[];
+  private readonly weights: number[];
+  private postings = new Map<string, number[]>();
+  // Every term in the postings, sorted, so a prefix is a contiguous range
+  private terms: string[] = [];
+  // By ordinal; undefined once removed
+  private keyAt: (K | undefined)[] = [];
+  private textsAt: (string[] | undefined)[] = [];
+  private ordinalOf = new Map<K, number>();
+  private removed = 0;
+
+  // Field names with their weights, e.g. { name: 2, email: 1 }; records may
+  // carry other properties, which are ignored
+  constructor(fields: Record<F, number>) {
+    this.fields = Object.keys(fields) as F[];
+    this.weights = Object.values(fields);
+  }
+
+  get size() {
+    return this.ordinalOf.size;
+  }
+
+  rebuild(records: Iterable<SearchRecord<K, F>>) {
+    this.postings = new Map();
+    this.keyAt = [];
+    this.textsAt = [];
+    this.ordinalOf = new Map();
+    this.removed = 0;
+    for (const record of records) this.append(record);
+    this.terms = Array.from(this.postings.keys()).sort();
+  }
+
+  // Adds the record, replacing any earlier version of it
+  add(record: SearchRecord<K, F>) {
+    this.remove(record.id);
+    for (const term of this.append(record)) {
+      this.terms.splice(this.lowerBound(term), 0, term);
+    }
+  }
+
+  remove(key: K) {
+    const ordinal = this.ordinalOf.get(key);
+    if (ordinal === undefined) return;
+    this.ordinalOf.delete(key);
+    this.keyAt[ordinal] = undefined;
+    this.textsAt[ordinal] = undefined;
+    this.removed++;
+    if (this.removed > COMPACT_AFTER && this.removed > this.ordinalOf.size) this.compact();
+  }
+
+  // Null when the query has no words, i.e. matches everything
+  search(query: string): SearchMatches<K> | null {
+    const words = Array.from(new Set(tokenize(query).map((token) => token.term)));
+    if (words.length === 0) return null;
+
+    const width = this.fields.length;
+    // Summed best scores of the words so far, for each record that matched
+    // all of them; later words only look at those. The work is the postings
+    // read plus the matches, never the table size.
+    let scores: Map<number, number> | null = null;
+    const wordMatches: WordMatch[] = [];
+
+    for (const word of words) {
+      const candidates = scores;
+      // Best score of this word per record
+      const best = new Map<number, number>();
+      const visit = (term: string, score: number) => {
+        for (const posting of this.postings.get(term)!) {
+          const ordinal = Math.floor(posting / width);
+          if (candidates ? !candidates.has(ordinal) : this.keyAt[ordinal] === undefined) continue;
+          const weighted = score * this.weights[posting % width];
+          if (weighted > (best.get(ordinal) ?? 0)) best.set(ordinal, weighted);
+        }
+      };
+
+      const [from, to] = this.prefixRange(word);
+      for (let t = from; t < to; t++) {
+        visit(this.terms[t], this.terms[t] === word ? EXACT_SCORE : PREFIX_SCORE);
+      }
+      let fuzzy: Map<string, number> | null = null;
+      if (from === to) {
+        fuzzy = this.fuzzyTerms(word);
+        for (const [term, distance] of fuzzy) visit(term, FUZZY_SCORE / distance);
+      }
+      wordMatches.push({ word, fuzzy });
+
+      scores = new Map();
+      for (const [ordinal, score] of best) scores.set(ordinal, (candidates?.get(ordinal) ?? 0) + score);
+      // No record matched every word so far, so none can match them all
+      if (scores.size === 0) break;
+    }
+
+    const matched = scores!;
+    // Postings of several terms interleave; back to index order
+    const ordinals = Array.from(matched.keys()).sort((a, b) => a - b);
+    return this.matches(ordinals, matched, wordMatches);
+  }
+
+  private matches(ordinals: number[], scores: Map<number, number>, words: WordMatch[]): SearchMatches<K> {
+    return {
+      size: ordinals.length,
+      // Records added after the search have ordinals it never saw: no match
+      has: (key) => {
+        const ordinal = this.ordinalOf.get(key);
+        return ordinal !== undefined && scores.has(ordinal);
+      },
+      keys: () => ordinals.map((ordinal) => this.keyAt[ordinal]!),
+      ranked: (limit) =>
+        [...ordinals]
+          .sort((a, b) => scores.get(b)! - scores.get(a)! || a - b)
+          .slice(0, limit)
+          .map((ordinal) => ({ key: this.keyAt[ordinal]!, score: scores.get(ordinal)! })),
+      highlights: (key) => {
+        const ordinal = this.ordinalOf.get(key);
+        const texts = ordinal === undefined ? undefined : this.textsAt[ordinal];
+        const highlights: Highlights = {};
+        texts?.forEach((text, field) => {
+          const ranges = highlightRanges(text, words);
+          if (ranges.length) highlights[this.fields[field]] = ranges;
+        });
+        return highlights;
+      },
+    };
+  }
+
+  // Indexes the record under a new ordinal; returns terms new to the index
+  private append(record: SearchRecord<K, F>): string[] {
+    const ordinal = this.keyAt.length;
+    const texts = this.fields.map((field) => record[field]);
+    this.keyAt.push(record.id);
+    this.textsAt.push(texts);
+    this.ordinalOf.set(record.id, ordinal);
+    const added: string[] = [];
+    texts.forEach((text, field) => {
+      const posting = ordinal * this.fields.length + field;
+      for (const { term } of tokenize(text)) {
+        const list = this.postings.get(term);
+        if (!list) {
+          this.postings.set(term, [posting]);
+          added.push(term);
+        } else if (list[list.length - 1] !== posting) {
+          list.push(posting);
+        }
+      }
+    });
+    return added;
+  }
+
+  // Renumbers the remaining records in order, dropping stale postings and terms
+  private compact() {
+    const records: SearchRecord<K, F>[] = [];
+    this.keyAt.forEach((id, ordinal) => {
+      const texts = this.textsAt[ordinal];
+      if (id === undefined || !texts) return;
+      const fields = Object.fromEntries(this.fields.map((field, i) => [field, texts[i]])) as Record<F, string>;
+      records.push({ id, ...fields });
+    });
+    this.rebuild(records);
+  }
+
+  // Terms the word is a prefix of (itself included) as a range of `terms`
+  private prefixRange(word: string): [number, number] {
+    const from = this.lowerBound(word);
+    let to = from;
+    while (to < this.terms.length && this.terms[to].startsWith(word)) to++;
+    return [from, to];
+  }
+
+  // Terms within the word's edit allowance, with their distances; only terms
+  // sharing its first letter are tried
+  private fuzzyTerms(word: string): Map<string, number> {
+    const found = new Map<string, number>();
+    const max = maxEdits(word);
+    if (max === 0) return found;
+    const first = String.fromCodePoint(word.codePointAt(0)!);
+    for (let t = this.lowerBound(first); t < this.terms.length && this.terms[t].startsWith(first); t++) {
+      const term = this.terms[t];
+      if (Math.abs(term.length - word.length) > max) continue;
+      const distance = boundedDistance(word, term, max);
+      if (distance <= max) found.set(term, distance);
+    }
+    return found;
+  }
+
+  private lowerBound(term: string) {
+    let lo = 0;
+    let hi = this.terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.terms[mid] < term) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
+
+// Parts of `text` matching any query word: the matched prefix of a word found
+// by prefix, the whole word for exact and fuzzy matches
+function highlightRanges(text: string, words: WordMatch[]): Highlight[] {
+  const ranges: Highlight[] = [];
+  for (const { term, start, end } of tokenize(text)) {
+    let length = 0;
+    for (const { word, fuzzy } of words) {
+      if (fuzzy) {
+        if (fuzzy.has(term)) length = term.length;
+      } else if (term.startsWith(word)) {
+        length = Math.max(length, word.length);
+      }
+    }
+    if (length === 0) continue;
+    // Lowercasing can change a word's length (e.g. "İ"); mark all of it then
+    ranges.push({ start, end: term.length === end - start ? start + length : end });
+  }
+  return ranges;
+}
+
+// The indexes the stores (and the quote store) keep; a name match outranks
+// an email match
+export const userSearchIndex = () => new SearchIndex<number, "name" | "email">({ name: 2, email: 1 });
+export const productSearchIndex = () => new SearchIndex<number, "name">({ name: 1 });
+export const nodeSearchIndex = () => new SearchIndex<string, "name">({ name: 1 });
+export const symbolSearchIndex = () => new SearchIndex<string, "symbol">({ symbol: 1 });
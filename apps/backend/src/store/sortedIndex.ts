@@ -0,0 +1,112 @@
+import type { SortDir } from "./types";
+
+export type SortKey = string | number;
+
+// User ids kept ordered by (key ASC, id ASC) so a page can be read by position
+// instead of sorting the whole table. Descending reads mirror each run of equal
+// keys, which keeps ties in ascending id order exactly like a stable sort.
+// Callers must remove() an id before changing its key and insert() it after.
+export class SortedIdIndex {
+  private ids: number[] = [];
+
+  constructor(
+    private keyOf: (id: number) => SortKey,
+    private compareKey: (a: SortKey, b: SortKey) => number
+  ) {}
+
+  get size() {
+    return this.ids.length;
+  }
+
+  rebuild(ids: Iterable<number>) {
+    this.ids = Array.from(ids).sort((a, b) => this.compare(a, b));
+  }
+
+  insert(id: number) {
+    this.ids.splice(this.bound(this.keyOf(id), id, false), 0, id);
+  }
+
+  remove(id: number) {
+    const i = this.bound(this.keyOf(id), id, false);
+    if (this.ids[i] === id) this.ids.splice(i, 1);
+  }
+
+  // Id at `pos` when the index is read in `dir` order
+  at(pos: number, dir: SortDir): number {
+    if (dir === "ASC") return this.ids[pos];
+    const j = this.ids.length - 1 - pos;
+    const key = this.keyOf(this.ids[j]);
+    const first = this.lowerBoundKey(key);
+    const last = this.upperBoundKey(key) - 1;
+    return this.ids[first + last - j];
+  }
+
+  slice(start: number, count: number, dir: SortDir): number[] {
+    const end = Math.min(this.ids.length, start + count);
+    if (dir === "ASC") return this.ids.slice(start, end);
+    const out: number[] = [];
+    for (let pos = start; pos < end; pos++) out.push(this.at(pos, dir));
+    return out;
+  }
+
+  // Position (in `dir` order) of the first id whose key equals that at `pos`
+  runStart(pos: number, dir: SortDir): number {
+    return this.rank(this.keyOf(this.at(pos, dir)), -Infinity, dir, false);
+  }
+
+  // Runs of ids with equal keys in `dir` order (each in ascending id order),
+  // starting with the run that holds position `from`
+  *runs(dir: SortDir, from = 0): Generator<number[]> {
+    if (from >= this.ids.length) return;
+    if (dir === "ASC") {
+      let lo = this.lowerBoundKey(this.keyOf(this.ids[from]));
+      while (lo < this.ids.length) {
+        const hi = this.upperBoundKey(this.keyOf(this.ids[lo]));
+        yield this.ids.slice(lo, hi);
+        lo = hi;
+      }
+      return;
+    }
+    let hi = this.upperBoundKey(this.keyOf(this.ids[this.ids.length - 1 - from]));
+    while (hi > 0) {
+      const lo = this.lowerBoundKey(this.keyOf(this.ids[hi - 1]));
+      yield this.ids.slice(lo, hi);
+      hi = lo;
+    }
+  }
+
+  // How many ids come before the position (key, id) in `dir` order; with
+  // `inclusive` an id sitting exactly at that position is counted too. The
+  // position need not belong to a current member, so cursors stay valid after
+  // the row they point at has moved or been deleted.
+  rank(key: SortKey, id: number, dir: SortDir, inclusive: boolean): number {
+    const bound = this.bound(key, id, inclusive);
+    if (dir === "ASC") return bound;
+    return this.ids.length - this.upperBoundKey(key) + (bound - this.lowerBoundKey(key));
+  }
+
+  private compare(a: number, b: number) {
+    return this.compareKey(this.keyOf(a), this.keyOf(b)) || a - b;
+  }
+
+  // First position whose (key, id) is >= the probe, or > it when `after`
+  private bound(key: SortKey, id: number, after: boolean) {
+    let lo = 0;
+    let hi = this.ids.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const c = this.compareKey(this.keyOf(this.ids[mid]), key) || this.ids[mid] - id;
+      if (c < 0 || (after && c === 0)) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  private lowerBoundKey(key: SortKey) {
+    return this.bound(key, -Infinity, false);
+  }
+
+  private upperBoundKey(key: SortKey) {
+    return this.bound(key, Infinity, false);
+  }
+}
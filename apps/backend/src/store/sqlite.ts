@@ -0,0 +1,864 @@
+import Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type {
+  FilterOp,
+  MonthlySpend,
+  Node,
+  NodeDetail,
+  Order,
+  OrderRow,
+  Product,
+  TopProduct,
+  UserDetail,
+  UserListRow,
+  UserOrder,
+  UserRow,
+} from "shared";
+import type { SeedData } from "../db";
+import { NodeTree } from "./nodeTree";
+import { nodeSearchIndex, productSearchIndex, SearchMatches, userSearchIndex } from "./searchIndex";
+import type {
+  ChildPage,
+  ChildPageQuery,
+  CursorPage,
+  CursorPosition,
+  NodeChildPolicy,
+  NodeInput,
+  NodePathEntry,
+  OrderCursorQuery,
+  OrderInput,
+  OrderListQuery,
+  OrderSortKey,
+  Page,
+  PageQuery,
+  ProductInput,
+  ProductListQuery,
+  ProductSortKey,
+  SearchHits,
+  SearchResult,
+  SortDir,
+  Store,
+  UserCursorQuery,
+  UserFilter,
+  UserInput,
+  UserListQuery,
+  UserScanQuery,
+  UserSearchHit,
+  UserSort,
+  UserSortKey,
+} from "./types";
+
+const TABLES = `
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    createdAt TEXT NOT NULL,
+    orderCount INTEGER NOT NULL DEFAULT 0,
+    orderCents INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS products (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    price REAL NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS orders (
+    id INTEGER PRIMARY KEY,
+    userId INTEGER NOT NULL,
+    productId INTEGER NOT NULL,
+    amount REAL NOT NULL,
+    createdAt TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS nodes (
+    id TEXT PRIMARY KEY,
+    parentId TEXT,
+    name TEXT NOT NULL,
+    hasChildren INTEGER NOT NULL,
+    descendants INTEGER NOT NULL DEFAULT 0
+  );
+`;
+
+// users.orderCount / users.orderCents are maintained by triggers so listing
+// users never has to aggregate the orders table
+const INDEXES = `
+  CREATE INDEX IF NOT EXISTS orders_user_created ON orders (userId, createdAt);
+  CREATE INDEX IF NOT EXISTS orders_product ON orders (productId);
+  CREATE INDEX IF NOT EXISTS orders_created ON orders (createdAt, id);
+  CREATE INDEX IF NOT EXISTS orders_amount ON orders (amount, id);
+  CREATE INDEX IF NOT EXISTS products_name ON products (name, id);
+  CREATE INDEX IF NOT EXISTS products_price ON products (price, id);
+  CREATE INDEX IF NOT EXISTS nodes_parent ON nodes (parentId);
+  CREATE INDEX IF NOT EXISTS users_name ON users (name, id);
+  CREATE INDEX IF NOT EXISTS users_email ON users (email, id);
+  CREATE INDEX IF NOT EXISTS users_email_lower ON users (lower(email));
+  CREATE INDEX IF NOT EXISTS users_created ON users (createdAt, id);
+  CREATE INDEX IF NOT EXISTS users_order_count ON users (orderCount, id);
+  CREATE INDEX IF NOT EXISTS users_order_cents ON users (orderCents, id);
+
+  CREATE TRIGGER IF NOT EXISTS orders_agg_insert AFTER INSERT ON orders BEGIN
+    UPDATE users SET orderCount = orderCount + 1,
+                     orderCents = orderCents + CAST(ROUND(NEW.amount * 100) AS INTEGER)
+    WHERE id = NEW.userId;
+  END;
+  CREATE TRIGGER IF NOT EXISTS orders_agg_delete AFTER DELETE ON orders BEGIN
+    UPDATE users SET orderCount = orderCount - 1,
+                     orderCents = orderCents - CAST(ROUND(OLD.amount * 100) AS INTEGER)
+    WHERE id = OLD.userId;
+  END;
+  CREATE TRIGGER IF NOT EXISTS orders_agg_update AFTER UPDATE OF userId, amount ON orders BEGIN
+    UPDATE users SET orderCount = orderCount - 1,
+                     orderCents = orderCents - CAST(ROUND(OLD.amount * 100) AS INTEGER)
+    WHERE id = OLD.userId;
+    UPDATE users SET orderCount = orderCount + 1,
+                     orderCents = orderCents + CAST(ROUND(NEW.amount * 100) AS INTEGER)
+    WHERE id = NEW.userId;
+  END;
+`;
+
+// Whitelisted ORDER BY expressions; never interpolate user input directly
+const USER_SORT_COLUMNS: Record<UserSortKey, string> = {
+  id: "u.id",
+  name: "u.name",
+  email: "u.email",
+  createdAt: "u.createdAt",
+  orderCount: "u.orderCount",
+  orderTotal: "u.orderCents",
+};
+
+const PRODUCT_SORT_COLUMNS: Record<ProductSortKey, string> = {
+  id: "id",
+  name: "name",
+  price: "price",
+};
+
+const ORDER_SORT_COLUMNS: Record<OrderSortKey, string> = {
+  id: "o.id",
+  createdAt: "o.createdAt",
+  amount: "o.amount",
+  userId: "o.userId",
+  productId: "o.productId",
+};
+
+const USER_ROW_COLUMNS = "u.id, u.name, u.email, u.createdAt, u.orderCount, u.orderCents / 100.0 AS orderTotal";
+const ORDER_COLUMNS = "id, userId, productId, amount, createdAt";
+const PRODUCT_COLUMNS = "id, name, price";
+
+// Orders under a user, joined to their (possibly deleted) product
+const USER_ORDER_COLUMNS =
+  "o.id, o.userId, o.productId, o.amount, o.createdAt, p.name AS productName, p.price AS productPrice";
+const USER_ORDER_FROM = "orders o LEFT JOIN products p ON p.id = o.productId";
+
+// All orders, joined to their product and user
+const ORDER_ROW_COLUMNS = `${USER_ORDER_COLUMNS}, u.name AS userName`;
+const ORDER_ROW_FROM = `${USER_ORDER_FROM} LEFT JOIN users u ON u.id = o.userId`;
+
+// Same rounding as the aggregate triggers
+const ORDER_CENTS = "CAST(ROUND(o.amount * 100) AS INTEGER)";
+
+type NodeRecord = Omit<Node, "hasChildren"> & { hasChildren: number };
+const NODE_COLUMNS = "id, parentId, name, hasChildren";
+
+// Recursive CTE body for @id and its ancestors, walked through the primary
+// key; `depth` counts up from the node
+const NODE_ANCESTORS = `ancestors (id, parentId, name, depth) AS (
+  SELECT id, parentId, name, 0 FROM nodes WHERE id = @id
+  UNION ALL
+  SELECT n.id, n.parentId, n.name, a.depth + 1 FROM nodes n JOIN ancestors a ON n.id = a.parentId
+)`;
+
+// Columns read into the search indexes
+type UserText = { id: number; name: string; email: string };
+type ProductText = { id: number; name: string };
+type NodeText = { id: string; name: string };
+
+// Rows listed under a search carry what matched it
+function withHighlights(rows: UserRow[], found: SearchMatches<number> | null): UserListRow[] {
+  return found ? rows.map((row) => ({ ...row, highlights: found.highlights(row.id) })) : rows;
+}
+
+function toNode(row: NodeRecord): Node {
+  return { ...row, hasChildren: row.hasChildren === 1 };
+}
+
+// Column value as stored, for comparing against keyset cursors
+function userSortValue(sortBy: UserSortKey, value: string | number): string | number {
+  return sortBy === "orderTotal" ? Math.round(Number(value) * 100) : value;
+}
+
+const userSortValues = (sort: UserSort, values: (string | number)[]) =>
+  sort.map(({ by }, i) => userSortValue(by, values[i]));
+
+type KeysetOptions<T> = {
+  select: string;
+  from: string;
+  where: string;
+  params: Record<string, unknown>;
+  sort: SortColumn[];
+  idCol: string;
+  pageSize: number;
+  cursor: CursorPosition | null;
+  sortValues: (row: T) => (string | number)[];
+  idOf: (row: T) => number;
+};
+
+// Escape LIKE wildcards so the search term is matched as a plain substring
+function likeContains(term: string): string {
+  return `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+const ORDER_SEARCH = "(p.name LIKE @term ESCAPE '\\' OR u.name LIKE @term ESCAPE '\\' OR u.email LIKE @term ESCAPE '\\')";
+
+const FILTER_OPERATORS: Record<FilterOp, string> = { eq: "=", gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+// Rows among the ids a SearchIndex matched, bound as a JSON array
+const inSearchIds = (idCol: string) => `${idCol} IN (SELECT value FROM json_each(@searchIds))`;
+
+// WHERE conditions (to be ANDed) for a search plus structured filter. Columns
+// and operators come from the maps above; values are always bound. Filtered
+// fields other than emailDomain are sort keys, stored the same way.
+function userConditions(found: SearchMatches<number> | null, filter: UserFilter) {
+  const conditions = found ? [inSearchIds("u.id")] : [];
+  const params: Record<string, unknown> = found ? { searchIds: JSON.stringify(found.keys()) } : {};
+  const clauses = filter.clauses.map(({ field, op, value }, i) => {
+    const name = `f${i}`;
+    if (field === "emailDomain") {
+      // Domains are validated to letters, digits, dots and dashes: no wildcards
+      params[name] = `%@${value}`;
+      return `u.email LIKE @${name}`;
+    }
+    params[name] = userSortValue(field, value);
+    return `${USER_SORT_COLUMNS[field]} ${FILTER_OPERATORS[op]} @${name}`;
+  });
+  if (clauses.length) conditions.push(`(${clauses.join(filter.match === "all" ? " AND " : " OR ")})`);
+  return { conditions, params };
+}
+
+type SortColumn = { col: string; dir: SortDir };
+
+const userSortColumns = (sort: UserSort): SortColumn[] =>
+  sort.map(({ by, dir }) => ({ col: USER_SORT_COLUMNS[by], dir }));
+
+const orderBy = (sort: SortColumn[], idCol: string) =>
+  [...sort.map(({ col, dir }) => `${col} ${dir}`), `${idCol} ASC`].join(", ");
+
+// Rows strictly after (or before) the position (@k0, @k1, ..., @id) in `sort`
+// order, ties broken by ascending id: the row-value comparison spelled out
+// term by term, since the directions may differ
+function keysetBeyond(sort: SortColumn[], idCol: string, side: "after" | "before"): string {
+  const branches = [...sort, null].map((term, i) => {
+    const equal = sort.slice(0, i).map(({ col }, j) => `${col} = @k${j}`);
+    const beyond = term
+      ? `${term.col} ${(term.dir === "ASC") === (side === "after") ? ">" : "<"} @k${i}`
+      : `${idCol} ${side === "after" ? ">" : "<"} @id`;
+    return [...equal, beyond].join(" AND ");
+  });
+  return `(${branches.map((b) => `(${b})`).join(" OR ")})`;
+}
+
+// Named params for a position's sort key values
+const keyParams = (keys: (string | number)[]) => Object.fromEntries(keys.map((key, i) => [`k${i}`, key]));
+
+// Embedded SQLite database file; survives restarts
+export class SqliteStore implements Store {
+  // Opened by init, so a bad or locked file fails startup like any other
+  // init error rather than at import
+  private db!: Database.Database;
+  // Built from the tables on init and kept in step with every write
+  private userSearch = userSearchIndex();
+  private productSearch = productSearchIndex();
+  private nodeSearch = nodeSearchIndex();
+
+  constructor(private readonly file: string) {}
+
+  async init() {
+    if (this.file !== ":memory:") mkdirSync(dirname(this.file), { recursive: true });
+    this.db = new Database(this.file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(TABLES);
+    this.migrateUserAggregates();
+    this.migrateNodeDescendants();
+    this.db.exec(INDEXES);
+    // Same record order as the memory store: by id, nodes as inserted
+    this.userSearch.rebuild(this.rows<UserText>("SELECT id, name, email FROM users ORDER BY id"));
+    this.productSearch.rebuild(this.rows<ProductText>("SELECT id, name FROM products ORDER BY id"));
+    this.nodeSearch.rebuild(this.rows<NodeText>("SELECT id, name FROM nodes ORDER BY rowid"));
+  }
+
+  async replaceData(data: SeedData) {
+    const insertUser = this.db.prepare(
+      "INSERT INTO users (id, name, email, createdAt) VALUES (@id, @name, @email, @createdAt)"
+    );
+    const insertProduct = this.db.prepare(
+      "INSERT INTO products (id, name, price) VALUES (@id, @name, @price)"
+    );
+    const insertOrder = this.db.prepare(
+      "INSERT INTO orders (id, userId, productId, amount, createdAt) VALUES (@id, @userId, @productId, @amount, @createdAt)"
+    );
+
+    this.db.transaction(() => {
+      this.db.exec("DELETE FROM orders; DELETE FROM products; DELETE FROM users;");
+      for (const u of data.users) insertUser.run(u);
+      for (const p of data.products) insertProduct.run(p);
+      for (const o of data.orders) insertOrder.run(o);
+    })();
+    this.userSearch.rebuild(data.users);
+    this.productSearch.rebuild(data.products);
+  }
+
+  async replaceNodes(nodes: Node[]) {
+    const insertNode = this.db.prepare(
+      "INSERT INTO nodes (id, parentId, name, hasChildren, descendants) VALUES (?, ?, ?, ?, ?)"
+    );
+    const tree = new NodeTree();
+    tree.rebuild(nodes);
+
+    this.db.transaction(() => {
+      this.db.exec("DELETE FROM nodes;");
+      for (const n of nodes) {
+        insertNode.run(n.id, n.parentId, n.name, n.hasChildren ? 1 : 0, tree.descendantCount(n.id));
+      }
+    })();
+    this.nodeSearch.rebuild(nodes);
+  }
+
+  async listUsers({ page, pageSize, search, filter, sort }: UserListQuery): Promise<Page<UserListRow>> {
+    const found = this.userSearch.search(search);
+    const { conditions, params: filterParams } = userConditions(found, filter);
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const params = { ...filterParams, limit: pageSize, offset: (page - 1) * pageSize };
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM users u ${where}`)
+      .get(params) as { total: number };
+
+    // Ties fall back to id so the order matches the in-memory indexes
+    const items = this.db
+      .prepare(
+        `SELECT ${USER_ROW_COLUMNS} FROM users u
+         ${where}
+         ORDER BY ${orderBy(userSortColumns(sort), "u.id")}
+         LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as UserRow[];
+
+    return { items: withHighlights(items, found), total, page, pageSize };
+  }
+
+  async listUsersByCursor({ pageSize, search, filter, sort, cursor }: UserCursorQuery): Promise<CursorPage<UserListRow>> {
+    const found = this.userSearch.search(search);
+    const { conditions, params } = userConditions(found, filter);
+    const page = this.keysetPage<UserRow>({
+      select: USER_ROW_COLUMNS,
+      from: "users u",
+      where: conditions.join(" AND ") || "1",
+      params,
+      sort: userSortColumns(sort),
+      idCol: "u.id",
+      pageSize,
+      cursor: cursor && { ...cursor, keys: userSortValues(sort, cursor.keys) },
+      sortValues: (row) => userSortValues(sort, sort.map(({ by }) => row[by])),
+      idOf: (row) => row.id,
+    });
+    return { ...page, items: withHighlights(page.items, found) };
+  }
+
+  async scanUsers({ search, filter, sort, after, limit }: UserScanQuery): Promise<UserRow[]> {
+    const columns = userSortColumns(sort);
+    const { conditions, params } = userConditions(this.userSearch.search(search), filter);
+    if (after) conditions.push(keysetBeyond(columns, "u.id", "after"));
+    return this.db
+      .prepare(
+        `SELECT ${USER_ROW_COLUMNS} FROM users u
+         ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY ${orderBy(columns, "u.id")}
+         LIMIT @limit`
+      )
+      .all({
+        ...params,
+        limit,
+        ...(after && { ...keyParams(userSortValues(sort, after.keys)), id: after.id }),
+      }) as UserRow[];
+  }
+
+  async getUsersByIds(ids: Iterable<number>, sort: UserSort): Promise<UserRow[]> {
+    return this.db
+      .prepare(
+        `SELECT ${USER_ROW_COLUMNS} FROM users u
+         WHERE u.id IN (SELECT value FROM json_each(?))
+         ORDER BY ${orderBy(userSortColumns(sort), "u.id")}`
+      )
+      .all(JSON.stringify([...ids])) as UserRow[];
+  }
+
+  async listUserOrders(userId: number, { page, pageSize }: PageQuery): Promise<Page<UserOrder>> {
+    const { total } = this.db
+      .prepare("SELECT COUNT(*) AS total FROM orders WHERE userId = ?")
+      .get(userId) as { total: number };
+    const items = this.db
+      .prepare(
+        `SELECT ${USER_ORDER_COLUMNS} FROM ${USER_ORDER_FROM}
+         WHERE o.userId = ? ORDER BY o.createdAt DESC, o.id ASC LIMIT ? OFFSET ?`
+      )
+      .all(userId, pageSize, (page - 1) * pageSize) as UserOrder[];
+    return { items, total, page, pageSize };
+  }
+
+  async listUserOrdersByCursor(userId: number, { pageSize, cursor }: OrderCursorQuery): Promise<CursorPage<UserOrder>> {
+    return this.keysetPage<UserOrder>({
+      select: USER_ORDER_COLUMNS,
+      from: USER_ORDER_FROM,
+      where: "o.userId = @userId",
+      params: { userId },
+      sort: [{ col: "o.createdAt", dir: "DESC" }],
+      idCol: "o.id",
+      pageSize,
+      cursor,
+      sortValues: (row) => [row.createdAt],
+      idOf: (row) => row.id,
+    });
+  }
+
+  async searchUsers(query: string, limit: number): Promise<SearchHits<UserSearchHit>> {
+    const found = this.userSearch.search(query);
+    if (!found) return { items: [], total: 0 };
+    const items: UserSearchHit[] = [];
+    for (const { key: id, score } of found.ranked(limit)) {
+      const row = await this.getUser(id);
+      if (row) items.push({ ...row, score, highlights: found.highlights(id) });
+    }
+    return { items, total: found.size };
+  }
+
+  async getUser(id: number) {
+    const row = this.db
+      .prepare(`SELECT ${USER_ROW_COLUMNS} FROM users u WHERE u.id = ?`)
+      .get(id) as UserRow | undefined;
+    return row ?? null;
+  }
+
+  async getUserDetail(id: number, topProducts: number): Promise<UserDetail | null> {
+    const user = await this.getUser(id);
+    if (!user) return null;
+
+    const { firstOrderAt, lastOrderAt } = this.db
+      .prepare("SELECT MIN(createdAt) AS firstOrderAt, MAX(createdAt) AS lastOrderAt FROM orders WHERE userId = ?")
+      .get(id) as { firstOrderAt: string | null; lastOrderAt: string | null };
+    const top = this.db
+      .prepare(
+        `SELECT o.productId, p.name AS productName, COUNT(*) AS orderCount, SUM(${ORDER_CENTS}) / 100.0 AS total
+         FROM ${USER_ORDER_FROM}
+         WHERE o.userId = ?
+         GROUP BY o.productId
+         ORDER BY SUM(${ORDER_CENTS}) DESC, orderCount DESC, o.productId ASC
+         LIMIT ?`
+      )
+      .all(id, topProducts) as TopProduct[];
+    // createdAt is stored as an ISO string, so its first 7 characters are the UTC month
+    const monthlySpend = this.db
+      .prepare(
+        `SELECT substr(o.createdAt, 1, 7) AS month, COUNT(*) AS orderCount, SUM(${ORDER_CENTS}) / 100.0 AS total
+         FROM orders o
+         WHERE o.userId = ?
+         GROUP BY month
+         ORDER BY month`
+      )
+      .all(id) as MonthlySpend[];
+
+    return {
+      ...user,
+      averageOrder: user.orderCount ? Math.round(Math.round(user.orderTotal * 100) / user.orderCount) / 100 : 0,
+      firstOrderAt,
+      lastOrderAt,
+      topProducts: top,
+      monthlySpend,
+    };
+  }
+
+  async findUserIdByEmail(email: string) {
+    const row = this.db
+      .prepare("SELECT id FROM users WHERE lower(email) = lower(?)")
+      .get(email) as { id: number } | undefined;
+    return row ? row.id : null;
+  }
+
+  async createUser(input: UserInput) {
+    const { id } = this.db
+      .prepare("INSERT INTO users (name, email, createdAt) VALUES (@name, @email, @createdAt) RETURNING id")
+      .get(input) as { id: number };
+    this.userSearch.add({ id, ...input });
+    return (await this.getUser(id))!;
+  }
+
+  async updateUser(id: number, changes: Partial<UserInput>) {
+    const current = await this.getUser(id);
+    if (!current) return null;
+    const next = { ...current, ...changes, id };
+    this.db
+      .prepare("UPDATE users SET name = @name, email = @email, createdAt = @createdAt WHERE id = @id")
+      .run({ id, name: next.name, email: next.email, createdAt: next.createdAt });
+    this.userSearch.add(next);
+    return this.getUser(id);
+  }
+
+  async deleteUser(id: number) {
+    const deleted = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM orders WHERE userId = ?").run(id);
+      return this.db.prepare("DELETE FROM users WHERE id = ?").run(id).changes > 0;
+    })();
+    this.userSearch.remove(id);
+    return deleted;
+  }
+
+  async listProducts({ page, pageSize, search, sortBy, sortDir }: ProductListQuery): Promise<Page<Product>> {
+    const found = this.productSearch.search(search);
+    const where = found ? `WHERE ${inSearchIds("id")}` : "";
+    const params = {
+      ...(found && { searchIds: JSON.stringify(found.keys()) }),
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    };
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM products ${where}`)
+      .get(params) as { total: number };
+    const items = this.db
+      .prepare(
+        `SELECT ${PRODUCT_COLUMNS} FROM products
+         ${where}
+         ORDER BY ${PRODUCT_SORT_COLUMNS[sortBy]} ${sortDir}, id ASC
+         LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as Product[];
+    return { items, total, page, pageSize };
+  }
+
+  async getProduct(id: number) {
+    const row = this.db
+      .prepare(`SELECT ${PRODUCT_COLUMNS} FROM products WHERE id = ?`)
+      .get(id) as Product | undefined;
+    return row ?? null;
+  }
+
+  async createProduct(input: ProductInput) {
+    const product = this.db
+      .prepare(`INSERT INTO products (name, price) VALUES (@name, @price) RETURNING ${PRODUCT_COLUMNS}`)
+      .get(input) as Product;
+    this.productSearch.add(product);
+    return product;
+  }
+
+  async updateProduct(id: number, changes: Partial<ProductInput>) {
+    const current = await this.getProduct(id);
+    if (!current) return null;
+    const next: Product = { ...current, ...changes, id };
+    this.db.prepare("UPDATE products SET name = @name, price = @price WHERE id = @id").run(next);
+    this.productSearch.add(next);
+    return next;
+  }
+
+  async countProductOrders(id: number) {
+    const { count } = this.db
+      .prepare("SELECT COUNT(*) AS count FROM orders WHERE productId = ?")
+      .get(id) as { count: number };
+    return count;
+  }
+
+  async deleteProduct(id: number) {
+    const deleted = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM orders WHERE productId = ?").run(id);
+      return this.db.prepare("DELETE FROM products WHERE id = ?").run(id).changes > 0;
+    })();
+    this.productSearch.remove(id);
+    return deleted;
+  }
+
+  async listOrders({ page, pageSize, search, sortBy, sortDir }: OrderListQuery): Promise<Page<OrderRow>> {
+    const where = search ? `WHERE ${ORDER_SEARCH}` : "";
+    const params = { term: likeContains(search), limit: pageSize, offset: (page - 1) * pageSize };
+    // The joins only matter to the count when searching by name
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM ${search ? ORDER_ROW_FROM : "orders o"} ${where}`)
+      .get(params) as { total: number };
+    const items = this.db
+      .prepare(
+        `SELECT ${ORDER_ROW_COLUMNS} FROM ${ORDER_ROW_FROM}
+         ${where}
+         ORDER BY ${ORDER_SORT_COLUMNS[sortBy]} ${sortDir}, o.id ASC
+         LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as OrderRow[];
+    return { items, total, page, pageSize };
+  }
+
+  async getOrder(id: number) {
+    const row = this.db
+      .prepare(`SELECT ${ORDER_COLUMNS} FROM orders WHERE id = ?`)
+      .get(id) as Order | undefined;
+    return row ?? null;
+  }
+
+  async createOrder(input: OrderInput) {
+    return this.db
+      .prepare(
+        `INSERT INTO orders (userId, productId, amount, createdAt)
+         VALUES (@userId, @productId, @amount, @createdAt)
+         RETURNING ${ORDER_COLUMNS}`
+      )
+      .get(input) as Order;
+  }
+
+  async updateOrder(id: number, changes: Partial<OrderInput>) {
+    const current = await this.getOrder(id);
+    if (!current) return null;
+    const next: Order = { ...current, ...changes, id };
+    this.db
+      .prepare(
+        `UPDATE orders SET userId = @userId, productId = @productId, amount = @amount, createdAt = @createdAt
+         WHERE id = @id`
+      )
+      .run(next);
+    return next;
+  }
+
+  async deleteOrder(id: number) {
+    return this.db.prepare("DELETE FROM orders WHERE id = ?").run(id).changes > 0;
+  }
+
+  async rootNodes() {
+    const rows = this.db
+      .prepare(`SELECT ${NODE_COLUMNS} FROM nodes WHERE parentId IS NULL ORDER BY rowid`)
+      .all() as NodeRecord[];
+    return rows.map(toNode);
+  }
+
+  // Keyset on rowid, which nodes_parent already orders within a parent
+  async childNodes(parentId: string, { limit, after }: ChildPageQuery): Promise<ChildPage> {
+    const rows = this.db
+      .prepare(
+        `SELECT rowid AS position, ${NODE_COLUMNS} FROM nodes
+         WHERE parentId = @parentId AND rowid > @after ORDER BY rowid LIMIT @limit`
+      )
+      .all({ parentId, after: after ?? 0, limit: limit + 1 }) as (NodeRecord & { position: number })[];
+    const total = this.db.prepare("SELECT COUNT(*) FROM nodes WHERE parentId = ?").pluck().get(parentId) as number;
+    const more = rows.length > limit;
+    if (more) rows.pop();
+    return {
+      items: rows.map(({ position: _, ...row }) => toNode(row)),
+      total,
+      next: more ? rows[rows.length - 1].position : null,
+    };
+  }
+
+  async searchNodes(query: string, limit: number): Promise<SearchHits<SearchResult>> {
+    const found = this.nodeSearch.search(query);
+    if (!found) return { items: [], total: 0 };
+    const nameOf = this.db.prepare("SELECT name FROM nodes WHERE id = ?").pluck();
+    const items = found.ranked(limit).map(({ key: id, score }) => ({
+      id,
+      name: nameOf.get(id) as string,
+      path: this.getNodePath(id),
+      score,
+      highlights: found.highlights(id),
+    }));
+    return { items, total: found.size };
+  }
+
+  async getNode(id: string) {
+    const row = this.db.prepare(`SELECT ${NODE_COLUMNS} FROM nodes WHERE id = ?`).get(id) as NodeRecord | undefined;
+    return row ? toNode(row) : null;
+  }
+
+  async getNodeDetail(id: string): Promise<NodeDetail | null> {
+    const row = this.db
+      .prepare(`SELECT ${NODE_COLUMNS}, descendants FROM nodes WHERE id = ?`)
+      .get(id) as (NodeRecord & { descendants: number }) | undefined;
+    if (!row) return null;
+    const { descendants, ...node } = row;
+    return { ...toNode(node), path: this.getNodePath(id), descendantCount: descendants };
+  }
+
+  async isNodeWithin(id: string, ancestorId: string) {
+    const row = this.db
+      .prepare(`WITH RECURSIVE ${NODE_ANCESTORS} SELECT 1 FROM ancestors WHERE id = @ancestorId LIMIT 1`)
+      .get({ id, ancestorId });
+    return row !== undefined;
+  }
+
+  async createNode(input: NodeInput) {
+    const node: Node = { id: randomUUID(), parentId: input.parentId, name: input.name, hasChildren: false };
+    this.db.transaction(() => {
+      this.db
+        .prepare("INSERT INTO nodes (id, parentId, name, hasChildren) VALUES (@id, @parentId, @name, 0)")
+        .run(node);
+      this.syncHasChildren(node.parentId);
+      this.addDescendants(node.parentId, 1);
+    })();
+    this.nodeSearch.add(node);
+    return node;
+  }
+
+  async updateNode(id: string, changes: Partial<NodeInput>) {
+    const current = await this.getNode(id);
+    if (!current) return null;
+    const next: Node = { ...current, ...changes };
+    this.db.transaction(() => {
+      this.db.prepare("UPDATE nodes SET parentId = @parentId, name = @name WHERE id = @id").run(next);
+      if (next.parentId !== current.parentId) {
+        // A fresh rowid puts the node after its new siblings
+        this.db.prepare("UPDATE nodes SET rowid = (SELECT MAX(rowid) + 1 FROM nodes) WHERE id = ?").run(id);
+        const size = this.descendantsOf(id) + 1;
+        this.syncHasChildren(current.parentId);
+        this.syncHasChildren(next.parentId);
+        this.addDescendants(current.parentId, -size);
+        this.addDescendants(next.parentId, size);
+      }
+    })();
+    if (next.name !== current.name) this.nodeSearch.add(next);
+    return next;
+  }
+
+  async deleteNode(id: string, children: NodeChildPolicy) {
+    const node = await this.getNode(id);
+    if (!node) return false;
+
+    const removed = this.db.transaction(() => {
+      let ids = [id];
+      this.addDescendants(node.parentId, children === "cascade" ? -(this.descendantsOf(id) + 1) : -1);
+      if (children === "cascade") {
+        ids = this.db
+          .prepare(
+            `WITH RECURSIVE subtree (id) AS (
+               SELECT ?
+               UNION ALL
+               SELECT n.id FROM nodes n JOIN subtree s ON n.parentId = s.id
+             )
+             SELECT id FROM subtree`
+          )
+          .pluck()
+          .all(id) as string[];
+      } else {
+        this.db.prepare("UPDATE nodes SET parentId = ? WHERE parentId = ?").run(node.parentId, id);
+      }
+      this.db.prepare("DELETE FROM nodes WHERE id IN (SELECT value FROM json_each(?))").run(JSON.stringify(ids));
+      this.syncHasChildren(node.parentId);
+      return ids;
+    })();
+    for (const removedId of removed) this.nodeSearch.remove(removedId);
+    return true;
+  }
+
+  // Recomputes a parent's hasChildren after its children changed
+  private syncHasChildren(parentId: string | null) {
+    if (parentId === null) return;
+    this.db
+      .prepare("UPDATE nodes SET hasChildren = EXISTS (SELECT 1 FROM nodes c WHERE c.parentId = nodes.id) WHERE id = ?")
+      .run(parentId);
+  }
+
+  private descendantsOf(id: string): number {
+    return this.db.prepare("SELECT descendants FROM nodes WHERE id = ?").pluck().get(id) as number;
+  }
+
+  // Adds `delta` to the descendant count of a node and all its ancestors
+  private addDescendants(id: string | null, delta: number) {
+    if (id === null) return;
+    this.db
+      .prepare(
+        `WITH RECURSIVE ${NODE_ANCESTORS}
+         UPDATE nodes SET descendants = descendants + @delta WHERE id IN (SELECT id FROM ancestors)`
+      )
+      .run({ id, delta });
+  }
+
+  // Ancestors of a node, root first, including the node itself
+  private getNodePath(nodeId: string): NodePathEntry[] {
+    const rows = this.db
+      .prepare(`WITH RECURSIVE ${NODE_ANCESTORS} SELECT id, name FROM ancestors ORDER BY depth DESC`)
+      .all({ id: nodeId }) as NodePathEntry[];
+    return rows;
+  }
+
+  // Streams the rows of a query instead of loading them all
+  private rows<T>(sql: string): Iterable<T> {
+    return this.db.prepare(sql).iterate() as Iterable<T>;
+  }
+
+  // Databases created before subtree sizes were stored get them counted once;
+  // node writes keep them current afterwards
+  private migrateNodeDescendants() {
+    const columns = this.db.prepare("PRAGMA table_info(nodes)").all() as { name: string }[];
+    if (columns.some((c) => c.name === "descendants")) return;
+    const nodes = (this.db.prepare(`SELECT ${NODE_COLUMNS} FROM nodes ORDER BY rowid`).all() as NodeRecord[]).map(toNode);
+    const tree = new NodeTree();
+    tree.rebuild(nodes);
+    this.db.transaction(() => {
+      this.db.exec("ALTER TABLE nodes ADD COLUMN descendants INTEGER NOT NULL DEFAULT 0");
+      const update = this.db.prepare("UPDATE nodes SET descendants = ? WHERE id = ?");
+      for (const { id } of nodes) {
+        const count = tree.descendantCount(id);
+        if (count > 0) update.run(count, id);
+      }
+    })();
+  }
+
+  // Databases created before the aggregate columns existed get them added and
+  // backfilled once; the triggers keep them current afterwards
+  private migrateUserAggregates() {
+    const columns = this.db.prepare("PRAGMA table_info(users)").all() as { name: string }[];
+    if (columns.some((c) => c.name === "orderCents")) return;
+    this.db.transaction(() => {
+      this.db.exec(`
+        ALTER TABLE users ADD COLUMN orderCount INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE users ADD COLUMN orderCents INTEGER NOT NULL DEFAULT 0;
+        UPDATE users SET
+          orderCount = (SELECT COUNT(*) FROM orders o WHERE o.userId = users.id),
+          orderCents = (SELECT COALESCE(SUM(CAST(ROUND(o.amount * 100) AS INTEGER)), 0)
+                        FROM orders o WHERE o.userId = users.id);
+      `);
+    })();
+  }
+
+  // One page in (sort..., idCol ASC) order, starting after or ending before
+  // the cursor position. Fetches one extra row to detect more pages in the
+  // travel direction and probes the other side with EXISTS.
+  private keysetPage<T>(opts: KeysetOptions<T>): CursorPage<T> {
+    const { select, from, where, params, sort, idCol, pageSize, cursor } = opts;
+    const after = keysetBeyond(sort, idCol, "after");
+    const before = keysetBeyond(sort, idCol, "before");
+    const forward = orderBy(sort, idCol);
+    const reversed = sort.map(({ col, dir }) => `${col} ${dir === "ASC" ? "DESC" : "ASC"}`);
+    const backward = [...reversed, `${idCol} DESC`].join(", ");
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM ${from} WHERE ${where}`)
+      .get(params) as { total: number };
+    const exists = (cond: string, row: T) =>
+      this.db
+        .prepare(`SELECT 1 FROM ${from} WHERE ${where} AND ${cond} LIMIT 1`)
+        .get({ ...params, ...keyParams(opts.sortValues(row)), id: opts.idOf(row) }) !== undefined;
+
+    if (cursor && cursor.direction === "before") {
+      const rows = this.db
+        .prepare(`SELECT ${select} FROM ${from} WHERE ${where} AND ${before} ORDER BY ${backward} LIMIT @limit`)
+        .all({ ...params, ...keyParams(cursor.keys), id: cursor.id, limit: pageSize + 1 }) as T[];
+      const items = rows.slice(0, pageSize).reverse();
+      const last = items[items.length - 1];
+      return { items, total, hasPrev: rows.length > pageSize, hasNext: last ? exists(after, last) : total > 0 };
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT ${select} FROM ${from} WHERE ${where} ${cursor ? `AND ${after}` : ""} ORDER BY ${forward} LIMIT @limit`
+      )
+      .all({ ...params, ...(cursor && { ...keyParams(cursor.keys), id: cursor.id }), limit: pageSize + 1 }) as T[];
+    const items = rows.slice(0, pageSize);
+    const first = items[0];
+    return {
+      items,
+      total,
+      hasNext: rows.length > pageSize,
+      hasPrev: first ? exists(before, first) : cursor !== null && total > 0,
+    };
+  }
+}
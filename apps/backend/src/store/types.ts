@@ -0,0 +1,189 @@
+import type {
+  Node,
+  NodeDetail,
+  Order,
+  OrderRow,
+  OrderSortKey,
+  Page,
+  Product,
+  ProductSortKey,
+  SearchHits,
+  SearchResult,
+  User,
+  UserDetail,
+  UserFilter,
+  UserListRow,
+  UserOrder,
+  UserRow,
+  UserSearchHit,
+  UserSortKey,
+} from "shared";
+import type { SeedData } from "../db";
+
+export type {
+  NodePathEntry,
+  OrderSortKey,
+  Page,
+  ProductSortKey,
+  SearchHits,
+  SearchResult,
+  UserFilter,
+  UserFilterClause,
+  UserSearchHit,
+  UserSortKey,
+} from "shared";
+
+export type SortDir = "ASC" | "DESC";
+
+export type PageQuery = {
+  page: number;
+  pageSize: number;
+};
+
+// Sort keys in priority order; rows tied on every key are ordered by ascending id
+export type UserSort = { by: UserSortKey; dir: SortDir }[];
+
+export type UserListQuery = PageQuery & {
+  search: string;
+  filter: UserFilter;
+  sort: UserSort;
+};
+
+// Keyset position: the sort key values (one per sort term) and id of the row
+// a page starts after (or ends before)
+export type CursorPosition = {
+  keys: (string | number)[];
+  id: number;
+  direction: "after" | "before";
+};
+
+export type UserCursorQuery = {
+  pageSize: number;
+  search: string;
+  filter: UserFilter;
+  sort: UserSort;
+  cursor: CursorPosition | null;
+};
+
+// Sequential read for exports: the `limit` rows after `after` (from the start
+// when null), with no total
+export type UserScanQuery = {
+  search: string;
+  filter: UserFilter;
+  sort: UserSort;
+  after: Omit<CursorPosition, "direction"> | null;
+  limit: number;
+};
+
+export type ProductListQuery = PageQuery & {
+  search: string;
+  sortBy: ProductSortKey;
+  sortDir: SortDir;
+};
+
+export type OrderListQuery = PageQuery & {
+  search: string;
+  sortBy: OrderSortKey;
+  sortDir: SortDir;
+};
+
+export type OrderCursorQuery = {
+  pageSize: number;
+  cursor: CursorPosition | null;
+};
+
+export type CursorPage<T> = {
+  items: T[];
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+};
+
+export type UserInput = Omit<User, "id">;
+export type ProductInput = Omit<Product, "id">;
+export type OrderInput = Omit<Order, "id">;
+// A page of a parent's children in sibling order. `after` is the position of
+// the last child already seen (null for the first page) and `next` the one
+// to continue from, null when none are left. Positions only ever compare, so
+// children added or removed between pages don't shift the next one.
+export type ChildPageQuery = { limit: number; after: number | null };
+export type ChildPage = { items: Node[]; total: number; next: number | null };
+
+// Stores assign the id and work out hasChildren themselves
+export type NodeInput = Omit<Node, "id" | "hasChildren">;
+// What becomes of a deleted node's children
+export type NodeChildPolicy = "cascade" | "rehome";
+
+// Everything the route handlers need from persistence. Each implementation
+// must return identical results for the same data so handlers stay unchanged.
+export interface Store {
+  // Create schema / indexes; called once before the server starts listening
+  init(): Promise<void>;
+
+  // Replace all users, products and orders with a freshly generated dataset
+  replaceData(data: SeedData): Promise<void>;
+  // Replace the whole org tree
+  replaceNodes(nodes: Node[]): Promise<void>;
+
+  // `search` goes through the store's SearchIndex; matching rows carry the
+  // ranges of name and email that matched
+  listUsers(query: UserListQuery): Promise<Page<UserListRow>>;
+  // A user's orders newest first, each with its product's name and price
+  listUserOrders(userId: number, query: PageQuery): Promise<Page<UserOrder>>;
+  // Keyset variants: stable under inserts/deletes and cheap for deep pages
+  listUsersByCursor(query: UserCursorQuery): Promise<CursorPage<UserListRow>>;
+  // Callers page through with the last row's sort key until a short batch
+  scanUsers(query: UserScanQuery): Promise<UserRow[]>;
+  // The listed users that exist, in `sort` order; reads only those rows
+  getUsersByIds(ids: Iterable<number>, sort: UserSort): Promise<UserRow[]>;
+  listUserOrdersByCursor(userId: number, query: OrderCursorQuery): Promise<CursorPage<UserOrder>>;
+  // The `limit` best matches of `query` (see SearchIndex) and the match count
+  searchUsers(query: string, limit: number): Promise<SearchHits<UserSearchHit>>;
+
+  // Referential policy (e.g. refusing to delete a user with orders) is the
+  // caller's job; deletes here always take dependent orders with them
+  getUser(id: number): Promise<UserRow | null>;
+  // The row plus aggregates over the user's orders, with the `topProducts`
+  // best-selling products
+  getUserDetail(id: number, topProducts: number): Promise<UserDetail | null>;
+  findUserIdByEmail(email: string): Promise<number | null>;
+  createUser(input: UserInput): Promise<UserRow>;
+  updateUser(id: number, changes: Partial<UserInput>): Promise<UserRow | null>;
+  deleteUser(id: number): Promise<boolean>;
+
+  // Ties on the sort key fall back to ascending id, as for users
+  listProducts(query: ProductListQuery): Promise<Page<Product>>;
+  getProduct(id: number): Promise<Product | null>;
+  createProduct(input: ProductInput): Promise<Product>;
+  updateProduct(id: number, changes: Partial<ProductInput>): Promise<Product | null>;
+  countProductOrders(id: number): Promise<number>;
+  deleteProduct(id: number): Promise<boolean>;
+
+  // Orders with their product and user names
+  listOrders(query: OrderListQuery): Promise<Page<OrderRow>>;
+  // Order writes keep each user's orderCount/orderTotal up to date
+  getOrder(id: number): Promise<Order | null>;
+  createOrder(input: OrderInput): Promise<Order>;
+  updateOrder(id: number, changes: Partial<OrderInput>): Promise<Order | null>;
+  deleteOrder(id: number): Promise<boolean>;
+
+  rootNodes(): Promise<Node[]>;
+  childNodes(parentId: string, page: ChildPageQuery): Promise<ChildPage>;
+  // Best matches first (see SearchIndex)
+  searchNodes(query: string, limit: number): Promise<SearchHits<SearchResult>>;
+
+  // Node reads and writes never scan the tree: lookups go by id and parent,
+  // ancestor walks cost the node's depth, and subtree sizes are kept up to
+  // date. Writes keep hasChildren right on every parent they touch. Checking
+  // that a parent exists and that a move doesn't make a cycle is the caller's
+  // job (see isNodeWithin)
+  getNode(id: string): Promise<Node | null>;
+  getNodeDetail(id: string): Promise<NodeDetail | null>;
+  // Whether `id` is `ancestorId` or below it
+  isNodeWithin(id: string, ancestorId: string): Promise<boolean>;
+  createNode(input: NodeInput): Promise<Node>;
+  updateNode(id: string, changes: Partial<NodeInput>): Promise<Node | null>;
+  // `cascade` deletes the subtree; `rehome` hands the children, in order, to
+  // the node's parent (making them roots under a root)
+  deleteNode(id: string, children: NodeChildPolicy): Promise<boolean>;
+}
@@ -0,0 +1,39 @@
+import type { Request } from "express";
+import type { z } from "zod";
+import { ApiError, FieldIssue } from "./errors";
+
+// Schemas for the parts of a request a route accepts (see shared/schemas)
+export type RequestSchemas = {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+};
+
+type Parsed<S extends RequestSchemas> = {
+  [K in keyof S]: S[K] extends z.ZodType ? z.infer<S[K]> : never;
+};
+
+// Parse params, query and body together and throw one 400 listing every
+// invalid field, with paths prefixed by the part they came from
+// (e.g. "query.pageSize", "body.email")
+export function parseRequest<S extends RequestSchemas>(req: Request, schemas: S): Parsed<S> {
+  const sources = { params: req.params, query: req.query, body: req.body ?? {} };
+  const parsed: Record<string, unknown> = {};
+  const details: FieldIssue[] = [];
+
+  for (const part of ["params", "query", "body"] as const) {
+    const schema = schemas[part];
+    if (!schema) continue;
+    const result = schema.safeParse(sources[part]);
+    if (result.success) {
+      parsed[part] = result.data;
+      continue;
+    }
+    for (const issue of result.error.issues) {
+      details.push({ path: [part, ...issue.path].map(String).join("."), message: issue.message });
+    }
+  }
+
+  if (details.length) throw ApiError.badRequest("Invalid request", details);
+  return parsed as Parsed<S>;
+}
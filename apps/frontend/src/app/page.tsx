@@ -1,69 +1,89 @@
 "use client";
 
 import { useState } from "react";
+import { CommandPalette } from "../components/CommandPalette";
 import { DataTable } from "../components/DataTable";
+import { OrdersTable } from "../components/OrdersTable";
 import { OrgChart } from "../components/OrgChart";
+import { ProductsTable } from "../components/ProductsTable";
 import { QuotesDashboard } from "../components/QuotesDashboard";
+import type { SearchTarget } from "../lib/globalSearch";
+
+type Tab = "users" | "products" | "orders" | "orgchart" | "quotes";
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: "users", label: "Users Table" },
+  { id: "products", label: "Products" },
+  { id: "orders", label: "Orders" },
+  { id: "orgchart", label: "Org Chart / File Explorer" },
+  { id: "quotes", label: "Real-time Quotes" },
+];
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<"users" | "orgchart" | "quotes">("users");
+  const [activeTab, setActiveTab] = useState<Tab>("users");
+  const [watchlist, setWatchlist] = useState(["AAPL", "MSFT", "GOOG", "AMZN", "META", "NVDA", "TSLA", "AMD", "NFLX", "INTC"]);
+  // The last command palette pick, until the user switches tabs by hand
+  const [jump, setJump] = useState<SearchTarget | null>(null);
+
+  const handleSelect = (target: SearchTarget) => {
+    if (target.kind === "symbol") {
+      const { symbol } = target.hit;
+      setWatchlist((current) => (current.includes(symbol) ? current : [...current, symbol]));
+      setJump(null);
+      setActiveTab("quotes");
+    } else {
+      setJump(target);
+      setActiveTab(target.kind === "user" ? "users" : "orgchart");
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
-        <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-6">
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">Next.js + Node.js Monorepo</h1>
-          <p className="text-gray-600">A full-stack application with data table, org chart/file explorer, and real-time quotes dashboard</p>
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-6 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Next.js + Node.js Monorepo</h1>
+            <p className="text-gray-600">A full-stack application with data table, org chart/file explorer, and real-time quotes dashboard</p>
+          </div>
+          <CommandPalette onSelect={handleSelect} />
         </div>
 
         {/* Tabs */}
         <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
           <div className="border-b border-gray-200">
             <nav className="flex space-x-8 px-6">
-              <button
-                onClick={() => setActiveTab("users")}
-                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                  activeTab === "users"
-                    ? "border-blue-500 text-blue-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-                }`}
-              >
-                Users Table
-              </button>
-              <button
-                onClick={() => setActiveTab("orgchart")}
-                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                  activeTab === "orgchart"
-                    ? "border-blue-500 text-blue-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-                }`}
-              >
-                Org Chart / File Explorer
-              </button>
-              <button
-                onClick={() => setActiveTab("quotes")}
-                className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
-                  activeTab === "quotes"
-                    ? "border-blue-500 text-blue-600"
-                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-                }`}
-              >
-                Real-time Quotes
-              </button>
+              {TABS.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => {
+                    setJump(null);
+                    setActiveTab(tab.id);
+                  }}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === tab.id
+                      ? "border-blue-500 text-blue-600"
+                      : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
             </nav>
           </div>
 
           {/* Tab Content */}
           <div className="p-6">
             {activeTab === "users" ? (
-              <DataTable />
+              <DataTable openUser={jump?.kind === "user" ? jump.hit : undefined} />
+            ) : activeTab === "products" ? (
+              <ProductsTable />
+            ) : activeTab === "orders" ? (
+              <OrdersTable />
             ) : activeTab === "orgchart" ? (
-              <OrgChart />
+              <OrgChart reveal={jump?.kind === "node" ? jump.hit.path : undefined} />
             ) : (
-              <QuotesDashboard 
-                symbols={["AAPL", "MSFT", "GOOG", "AMZN", "META", "NVDA", "TSLA", "AMD", "NFLX", "INTC"]}
-              />
+              <QuotesDashboard symbols={watchlist} />
             )}
           </div>
         </div>
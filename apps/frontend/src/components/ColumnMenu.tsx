@@ -0,0 +1,75 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Pin, PinOff } from "lucide-react";
+import type { ColumnLayout } from "../lib/columnLayout";
+import { moveColumn, toggleColumn } from "../lib/columnLayout";
+
+interface ColumnMenuProps {
+  layout: ColumnLayout;
+  labels: Record<string, string>;
+  onChange: (layout: ColumnLayout) => void;
+  onReset: () => void;
+}
+
+// Shows, hides, pins and reorders columns; changes apply immediately. Widths
+// are set by dragging the header edges.
+export function ColumnMenu({ layout, labels, onChange, onReset }: ColumnMenuProps) {
+  const visibleCount = layout.filter((entry) => !entry.hidden).length;
+
+  return (
+    <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50 text-sm">
+      <ul className="space-y-1">
+        {layout.map((entry, index) => (
+          <li key={entry.key} className="flex items-center gap-2">
+            <label className="flex items-center gap-2 w-48">
+              <input
+                type="checkbox"
+                checked={!entry.hidden}
+                // The last visible column cannot be hidden
+                disabled={!entry.hidden && visibleCount === 1}
+                onChange={() => onChange(toggleColumn(layout, entry.key, "hidden"))}
+              />
+              <span className={entry.hidden ? "text-gray-400" : "text-gray-700"}>
+                {labels[entry.key] ?? entry.key}
+              </span>
+            </label>
+            <button
+              className={`p-1 rounded hover:bg-gray-200 ${entry.pinned ? "text-blue-600" : "text-gray-400"}`}
+              aria-label={entry.pinned ? "Unpin column" : "Pin column to the left"}
+              aria-pressed={entry.pinned}
+              onClick={() => onChange(toggleColumn(layout, entry.key, "pinned"))}
+            >
+              {entry.pinned ? <Pin className="h-4 w-4" /> : <PinOff className="h-4 w-4" />}
+            </button>
+            <button
+              className="p-1 rounded text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+              aria-label="Move column up"
+              disabled={index === 0}
+              onClick={() => onChange(moveColumn(layout, entry.key, layout[index - 1].key))}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button
+              className="p-1 rounded text-gray-500 hover:bg-gray-200 disabled:opacity-30"
+              aria-label="Move column down"
+              disabled={index === layout.length - 1}
+              onClick={() => onChange(moveColumn(layout, entry.key, layout[index + 1].key))}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2 mt-3">
+        <span className="text-gray-500">Drag header labels to reorder and header edges to resize.</span>
+        <button
+          className="ml-auto px-3 py-1 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-100"
+          onClick={onReset}
+        >
+          Reset layout
+        </button>
+      </div>
+    </div>
+  );
+}
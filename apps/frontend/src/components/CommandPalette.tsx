@@ -0,0 +1,246 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AlertCircle, Folder, Search, TrendingUp, User } from "lucide-react";
+import type { GlobalSearchResult, SearchHits } from "shared";
+import { formatCurrency } from "../lib/format";
+import { type SearchTarget, searchAll, searchTargets } from "../lib/globalSearch";
+import { HighlightedText } from "./HighlightedText";
+
+interface CommandPaletteProps {
+  onSelect: (target: SearchTarget) => void;
+}
+
+// Results per group (users, nodes, symbols)
+const GROUP_LIMIT = 5;
+const SEARCH_DELAY = 150;
+
+const GROUPS: { key: keyof GlobalSearchResult; label: string }[] = [
+  { key: "users", label: "Users" },
+  { key: "nodes", label: "Org chart" },
+  { key: "symbols", label: "Quotes" },
+];
+
+const optionId = (index: number) => `command-palette-option-${index}`;
+
+function TargetLabel({ target }: { target: SearchTarget }) {
+  switch (target.kind) {
+    case "user":
+      return (
+        <>
+          <User className="h-4 w-4 text-gray-400 shrink-0" />
+          <span className="truncate">
+            <HighlightedText text={target.hit.name} ranges={target.hit.highlights.name} />
+          </span>
+          <span className="ml-auto truncate text-xs text-gray-500">
+            <HighlightedText text={target.hit.email} ranges={target.hit.highlights.email} />
+          </span>
+        </>
+      );
+    case "node":
+      return (
+        <>
+          <Folder className="h-4 w-4 text-blue-500 shrink-0" />
+          <span className="truncate">
+            <HighlightedText text={target.hit.name} ranges={target.hit.highlights.name} />
+          </span>
+          <span className="ml-auto truncate text-xs text-gray-500">
+            {target.hit.path
+              .slice(0, -1)
+              .map((entry) => entry.name)
+              .join(" › ")}
+          </span>
+        </>
+      );
+    case "symbol":
+      return (
+        <>
+          <TrendingUp className="h-4 w-4 text-green-600 shrink-0" />
+          <span className="font-medium">
+            <HighlightedText text={target.hit.symbol} ranges={target.hit.highlights.symbol} />
+          </span>
+          <span className="ml-auto text-xs text-gray-500">
+            {target.hit.quote ? formatCurrency(target.hit.quote.price) : "no quote yet"} · add to watchlist
+          </span>
+        </>
+      );
+  }
+}
+
+// Searches users, org nodes and quote symbols at once. Ctrl+K (Cmd+K on
+// macOS) opens it from anywhere; arrows move through the results, Enter picks
+// one and Escape closes. Focus goes back where it was on close.
+export function CommandPalette({ onSelect }: CommandPaletteProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [result, setResult] = useState<GlobalSearchResult | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const targets = useMemo(() => (result ? searchTargets(result) : []), [result]);
+
+  const show = () => {
+    returnFocusRef.current = document.activeElement as HTMLElement | null;
+    setOpen(true);
+  };
+
+  const close = () => {
+    setOpen(false);
+    setQuery("");
+    setResult(null);
+    setError(null);
+    returnFocusRef.current?.focus();
+  };
+
+  const pick = (target: SearchTarget) => {
+    close();
+    onSelect(target);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        returnFocusRef.current ??= document.activeElement as HTMLElement | null;
+        setOpen(true);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Debounced; a newer query cancels the request for the older one
+  useEffect(() => {
+    if (!open || !query.trim()) {
+      setResult(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      searchAll({ q: query, limit: GROUP_LIMIT }, controller.signal)
+        .then((next) => {
+          setResult(next);
+          setActiveIndex(0);
+          setError(null);
+        })
+        .catch((err) => {
+          if (err instanceof Error && err.name !== "AbortError") setError(err.message);
+        });
+    }, SEARCH_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, query]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (targets.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((i) => (i + step + targets.length) % targets.length);
+    } else if (e.key === "Enter" && targets[activeIndex]) {
+      e.preventDefault();
+      pick(targets[activeIndex]);
+    }
+  };
+
+  // Option indices run on across the groups, matching `targets`
+  let offset = 0;
+  const groups = GROUPS.map(({ key, label }) => {
+    const hits: SearchHits<unknown> | undefined = result?.[key];
+    const start = offset;
+    offset += hits?.items.length ?? 0;
+    return { key, label, hits, start };
+  }).filter(({ hits }) => hits && hits.items.length > 0);
+
+  return (
+    <>
+      <button
+        onClick={show}
+        className="flex items-center gap-2 px-3 py-2 text-sm text-gray-500 border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        <Search className="h-4 w-4" />
+        Search everything
+        <kbd className="ml-2 px-1.5 text-xs border border-gray-300 rounded bg-gray-50">Ctrl K</kbd>
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 bg-black/30 z-40" onClick={close} />
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label="Search everything"
+            className="fixed left-1/2 top-24 z-50 w-full max-w-xl -translate-x-1/2 bg-white rounded-lg shadow-xl overflow-hidden"
+          >
+            <div className="relative border-b border-gray-200">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                autoFocus
+                type="text"
+                role="combobox"
+                aria-expanded={targets.length > 0}
+                aria-controls="command-palette-results"
+                aria-activedescendant={targets[activeIndex] ? optionId(activeIndex) : undefined}
+                placeholder="Search users, org nodes and symbols..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="w-full pl-11 pr-4 py-3 text-sm focus:outline-none"
+              />
+            </div>
+
+            <div id="command-palette-results" role="listbox" className="max-h-96 overflow-y-auto py-2">
+              {groups.map(({ key, label, hits, start }) => (
+                <div key={key} role="group" aria-labelledby={`command-palette-${key}`}>
+                  <div id={`command-palette-${key}`} className="px-4 py-1 text-xs font-medium text-gray-500">
+                    {label}
+                    {hits!.total > hits!.items.length && ` (${hits!.items.length} of ${hits!.total})`}
+                  </div>
+                  {targets.slice(start, start + hits!.items.length).map((target, i) => {
+                    const index = start + i;
+                    return (
+                      <div
+                        key={index}
+                        id={optionId(index)}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onMouseMove={() => setActiveIndex(index)}
+                        onClick={() => pick(target)}
+                        className={`flex items-center gap-2 px-4 py-2 text-sm cursor-pointer ${
+                          index === activeIndex ? "bg-blue-50" : ""
+                        }`}
+                      >
+                        <TargetLabel target={target} />
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+              {error ? (
+                <div className="flex items-center gap-2 px-4 py-2 text-sm text-red-700">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              ) : (
+                result &&
+                targets.length === 0 && <div className="px-4 py-2 text-sm text-gray-500">No matches</div>
+              )}
+            </div>
+
+            <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-400">
+              ↑↓ to move · Enter to open · Esc to close
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
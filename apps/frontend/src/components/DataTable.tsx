@@ -4,55 +4,262 @@ import type React from "react";
 
 import { useState, useMemo, useCallback, useRef, useEffect } from "react";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
-import { ChevronUp, ChevronDown, Search, AlertCircle } from "lucide-react";
-import { VirtualizedTable } from "./VirtualizedTable";
-
-export interface User {
-  id: number;
-  name: string;
-  email: string;
-  status: "active" | "inactive" | "pending";
-  orderTotal: number;
-  createdAt: string;
-  orderCount: number;
-}
+import { Search, AlertCircle, Columns3, Download, Filter, X } from "lucide-react";
+import type {
+  ExportFormat,
+  FilterMatch,
+  QueryParams,
+  UserFilterClause,
+  UserListRow,
+  UserSortKey,
+  UserSortTerm,
+  UsersExportQuery,
+  UsersQuery,
+} from "shared";
+import { ColumnMenu } from "./ColumnMenu";
+import { HighlightedText } from "./HighlightedText";
+import { UserBulkBar } from "./UserBulkBar";
+import { UserDetailDrawer } from "./UserDetailDrawer";
+import { TableHeader } from "./TableHeader";
+import { UserFilterBuilder } from "./UserFilterBuilder";
+import {
+  RowEditStatus,
+  RowSelection,
+  SELECT_COLUMN_WIDTH,
+  TableColumn,
+  RowWindow,
+  TableSkeleton,
+  VISIBLE_ROWS,
+  VirtualizedTable,
+} from "./VirtualizedTable";
+import { toSearchParams } from "../lib/api";
+import {
+  PageWindow,
+  addPage,
+  emptyWindow,
+  loadedRows,
+  mapRows,
+  missingPages,
+  rowAt,
+} from "../lib/pageWindow";
+import { UsersPage, fetchUsersPage, peekUsersPage, prefetchUsersPage } from "../lib/userPages";
+import { useGridNavigation } from "../lib/gridNavigation";
+import {
+  ColumnLayout,
+  applyLayout,
+  defaultLayout,
+  formatLayout,
+  loadLayout,
+  moveColumn,
+  parseLayout,
+  resizeColumn,
+  saveLayout,
+} from "../lib/columnLayout";
+import { formatCurrency, formatDate } from "../lib/format";
+import { formatUserFilter, parseUserFilter } from "../lib/userFilters";
+import { formatSort, nextSort, parseSort } from "../lib/userSort";
+import {
+  EditableUserField,
+  SaveError,
+  fetchUser,
+  patchUser,
+  validateUserField,
+} from "../lib/userEdits";
+import {
+  EMPTY_SELECTION,
+  UserSelection,
+  isSelected,
+  setSelected,
+} from "../lib/userSelection";
+
+// Whole-list ("all") mode scrolls through every matching row, loading the
+// pages under the viewport
+type PaginationMode = "pages" | "infinite" | "all";
+
+const MODE_LABELS: Record<PaginationMode, string> = {
+  pages: "Pages",
+  infinite: "Infinite scroll",
+  all: "Whole list",
+};
+
+// Whole-list mode keeps this many pages loaded around the viewport, and
+// waits this long after scrolling stops before loading what is missing
+const MAX_WINDOW_PAGES = 20;
+const PAGE_LOAD_DELAY = 100;
 
 interface TableState {
   page: number;
   pageSize: number;
-  sortBy: keyof User | null;
-  sortOrder: "asc" | "desc";
+  // Sort keys in priority order; empty leaves the API default
+  sort: UserSortTerm[];
   filter: string;
+  // Structured column filters (`filter`/`match` params on the API)
+  clauses: UserFilterClause[];
+  match: FilterMatch;
+  mode: PaginationMode;
 }
 
-interface ApiResponse {
-  items: User[];
-  total: number;
-  page: number;
-  pageSize: number;
+const DEBOUNCE_DELAY = 250;
+
+// Query params for the structured filters; left out entirely when there are none
+function filterParams({ clauses, match }: Pick<TableState, "clauses" | "match">): QueryParams<Pick<UsersQuery, "filter" | "match">> {
+  if (clauses.length === 0) return {};
+  return { filter: formatUserFilter(clauses), ...(match === "any" && { match }) };
 }
 
-const DEBOUNCE_DELAY = 250;
+// List query for the table state. In infinite mode `cursor` asks for the page
+// after the one it was issued with; it carries the sort, search still applies.
+function usersQuery(state: TableState, cursor = ""): QueryParams<UsersQuery> {
+  const base = { pageSize: state.pageSize, search: state.filter, ...filterParams(state) };
+  if (cursor) return { ...base, cursor };
+  return {
+    ...base,
+    ...(state.sort.length > 0 && { sort: formatSort(state.sort) }),
+    // An empty cursor asks for the first keyset page
+    ...(state.mode === "infinite" ? { cursor: "" } : { page: state.page }),
+  };
+}
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  ndjson: "NDJSON",
+  xlsx: "XLSX",
+};
+
+const COLUMNS: TableColumn<UserListRow, UserSortKey>[] = [
+  { key: "id", label: "ID", width: 80, sortKey: "id", pinned: true },
+  {
+    key: "name",
+    label: "Name",
+    width: 200,
+    sortKey: "name",
+    pinned: true,
+    editable: true,
+    validate: (value) => validateUserField("name", value),
+    render: (user) => <HighlightedText text={user.name} ranges={user.highlights?.name} />,
+  },
+  {
+    key: "email",
+    label: "Email",
+    width: 250,
+    sortKey: "email",
+    editable: true,
+    validate: (value) => validateUserField("email", value),
+    render: (user) => (
+      <span className="truncate" title={user.email}>
+        <HighlightedText text={user.email} ranges={user.highlights?.email} />
+      </span>
+    ),
+  },
+  {
+    key: "orderTotal",
+    label: "Total Order Amount",
+    width: 180,
+    sortKey: "orderTotal",
+    format: (user) => formatCurrency(user.orderTotal),
+    className: "font-medium text-green-600",
+  },
+  { key: "orderCount", label: "Orders", width: 100, sortKey: "orderCount" },
+  {
+    key: "createdAt",
+    label: "Last Order",
+    width: 150,
+    sortKey: "createdAt",
+    format: (user) => formatDate(user.createdAt),
+    className: "text-gray-500",
+  },
+];
+
+const COLUMN_LABELS: Record<string, string> = Object.fromEntries(
+  COLUMNS.map((column) => [column.key, column.label])
+);
+
+// Column layout (`cols` URL param, else the last one used in this browser)
+const DEFAULT_LAYOUT = defaultLayout(COLUMNS);
+const DEFAULT_COLS = formatLayout(DEFAULT_LAYOUT);
+const LAYOUT_STORAGE_KEY = "users-table:columns";
+
+interface DataTableProps {
+  // User to open in the detail drawer, e.g. one picked in the command palette
+  openUser?: { id: number };
+}
 
-export function DataTable() {
+export function DataTable({ openUser }: DataTableProps = {}) {
   const searchParams = useSearchParams();
   const router = useRouter();
   const pathname = usePathname();
   const [tableState, setTableState] = useState<TableState>({
     page: 1,
     pageSize: 50,
-    sortBy: null,
-    sortOrder: "asc",
+    sort: [],
     filter: "",
+    clauses: [],
+    match: "all",
+    mode: "pages",
   });
-
-  const [data, setData] = useState<User[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showColumns, setShowColumns] = useState(false);
+  const [layout, setLayout] = useState<ColumnLayout>(DEFAULT_LAYOUT);
+  // Trails `layout` by the debounce delay so a drag-resize writes the URL and
+  // storage once it settles rather than on every pointer move
+  const [savedLayout, setSavedLayout] = useState<ColumnLayout>(DEFAULT_LAYOUT);
+  // User shown in the detail drawer (`user` URL param)
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+
+  const [data, setData] = useState<UserListRow[]>([]);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Rows with an inline edit in flight or a failed one, by user id
+  const [editStatus, setEditStatus] = useState<ReadonlyMap<number, RowEditStatus>>(new Map());
+  const [editError, setEditError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<UserSelection>(EMPTY_SELECTION);
+  // Whole-list mode's loaded pages (`data` then only holds the first)
+  const [pageWindow, setPageWindow] = useState<PageWindow<UserListRow>>(() => emptyWindow(50));
 
   const debounceRef = useRef<NodeJS.Timeout>(null);
-  const abortControllerRef = useRef<AbortController>(null);
+  // Bumped per list request; responses to older ones are dropped
+  const requestRef = useRef(0);
+  // Whole-list mode: rows last rendered, and the pending load for them
+  const rangeRef = useRef({ start: 0, stop: 0 });
+  const rangeTimerRef = useRef<NodeJS.Timeout>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  // ETag to send with each user's next edit: read when an editor opens, then
+  // taken from each save, so edits to one row go out one after another
+  const etagsRef = useRef(new Map<number, Promise<string | null>>());
+  // Row index of the last checkbox toggled; shift-clicks extend from it
+  const selectAnchorRef = useRef<number | null>(null);
+
+  const showPage = useCallback((state: TableState, result: UsersPage) => {
+    setData(result.items);
+    setTotal(result.total);
+    setNextCursor("nextCursor" in result ? result.nextCursor : null);
+    if (state.mode === "all") {
+      setPageWindow(addPage(emptyWindow(state.pageSize), 1, result.items, 0, MAX_WINDOW_PAGES));
+    }
+  }, []);
+
+  // Whole-list mode: fetch pages into the window, evicting the ones farthest
+  // from the rows last rendered
+  const loadPages = useCallback((state: TableState, request: number, pages: number[]) => {
+    for (const page of pages) {
+      fetchUsersPage(usersQuery({ ...state, page }))
+        .then((result) => {
+          if (request !== requestRef.current) return;
+          const { start, stop } = rangeRef.current;
+          const center = Math.floor((start + stop) / 2);
+          setPageWindow((prev) => addPage(prev, page, result.items, center, MAX_WINDOW_PAGES));
+          setTotal(result.total);
+        })
+        .catch((err: unknown) => {
+          if (request === requestRef.current && err instanceof Error) {
+            setError(err.message);
+          }
+        });
+    }
+  }, []);
 
   // Debounced filter function
   const debouncedSetFilter = useCallback((value: string) => {
@@ -65,64 +272,83 @@ export function DataTable() {
     }, DEBOUNCE_DELAY);
   }, []);
 
-  // Fetch data function with abort controller for performance
+  // Shows the cached page at once when there is one; a missing or stale one
+  // is (re)fetched, then the pages either side are prefetched
   const fetchData = useCallback(async (state: TableState) => {
-    // Cancel previous request
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-
-    abortControllerRef.current = new AbortController();
-    setLoading(true);
+    const request = ++requestRef.current;
+    // Whole-list mode starts from the top, other pages load as they scroll in
+    const query = usersQuery(state.mode === "all" ? { ...state, page: 1 } : state);
+    const cached = peekUsersPage(query);
+    if (cached) showPage(state, cached.data);
+    setLoading(!cached);
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        page: state.page.toString(),
-        pageSize: state.pageSize.toString(),
-        search: state.filter,
-        ...(state.sortBy && {
-          sortBy: state.sortBy,
-          sortDir: state.sortOrder,
-        }),
-      });
-
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/users?${params}`,
-        {
-          signal: abortControllerRef.current.signal,
+      const result = cached && !cached.stale ? cached.data : await fetchUsersPage(query);
+      if (request !== requestRef.current) return;
+      showPage(state, result);
+
+      if (state.mode === "all") {
+        const { start, stop } = rangeRef.current;
+        const pages = missingPages(emptyWindow(state.pageSize), start, Math.min(stop, result.total - 1));
+        loadPages(state, request, pages.filter((page) => page !== 1));
+      } else if (state.mode === "infinite") {
+        if ("nextCursor" in result && result.nextCursor) {
+          prefetchUsersPage(usersQuery(state, result.nextCursor));
         }
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      } else {
+        const totalPages = Math.ceil(result.total / state.pageSize);
+        if (state.page < totalPages) prefetchUsersPage(usersQuery({ ...state, page: state.page + 1 }));
+        if (state.page > 1) prefetchUsersPage(usersQuery({ ...state, page: state.page - 1 }));
       }
+    } catch (err) {
+      if (request === requestRef.current && err instanceof Error) {
+        setError(err.message);
+      }
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [showPage, loadPages]);
+
+  // Whole-list mode: once scrolling settles, load the pages the rendered rows
+  // fall on
+  const handleRangeRendered = useCallback(
+    (start: number, stop: number) => {
+      rangeRef.current = { start, stop };
+      if (rangeTimerRef.current) clearTimeout(rangeTimerRef.current);
+      rangeTimerRef.current = setTimeout(() => {
+        loadPages(tableState, requestRef.current, missingPages(pageWindow, start, stop));
+      }, PAGE_LOAD_DELAY);
+    },
+    [tableState, pageWindow, loadPages]
+  );
 
-      const result: ApiResponse = await response.json();
+  // Infinite mode: append the page after the last loaded row
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) return;
 
-      // Simulate network delay for demo (remove in production)
-      await new Promise((resolve) => setTimeout(resolve, 100));
+    const request = requestRef.current;
+    setLoadingMore(true);
 
-      setData(result.items);
+    try {
+      const result = await fetchUsersPage(usersQuery(tableState, nextCursor));
+      if (request !== requestRef.current || !("nextCursor" in result)) return;
+      setData((prev) => [...prev, ...result.items]);
       setTotal(result.total);
+      setNextCursor(result.nextCursor);
+      if (result.nextCursor) prefetchUsersPage(usersQuery(tableState, result.nextCursor));
     } catch (err) {
-      if (err instanceof Error && err.name !== "AbortError") {
+      if (request === requestRef.current && err instanceof Error) {
         setError(err.message);
       }
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
-  }, []);
+  }, [nextCursor, loading, loadingMore, tableState]);
 
   // Effect to fetch data when table state changes
   useEffect(() => {
     fetchData(tableState);
-
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-    };
   }, [tableState, fetchData]);
 
   // Initialize table state from URL query params on first render
@@ -133,8 +359,19 @@ export function DataTable() {
     const pageParam = Number(searchParams.get("page") || "");
     const pageSizeParam = Number(searchParams.get("pageSize") || "");
     const filterParam = searchParams.get("search") || "";
-    const sortByParamRaw = searchParams.get("sortBy") || "";
-    const sortDirParam = (searchParams.get("sortDir") || "") as "asc" | "desc";
+    const clausesParam = parseUserFilter(searchParams.get("filter") || "");
+    const matchParam = searchParams.get("match");
+    // Links made before multi-column sort carry sortBy/sortDir instead
+    const sortBy = searchParams.get("sortBy") || "";
+    const sortParam = parseSort(
+      searchParams.get("sort") || (sortBy && `${sortBy}:${searchParams.get("sortDir") || "asc"}`)
+    );
+    const modeParam = searchParams.get("mode");
+    const userParam = Number(searchParams.get("user") || "");
+    const colsParam = searchParams.get("cols");
+    const layoutParam = colsParam
+      ? parseLayout(colsParam, COLUMNS)
+      : loadLayout(LAYOUT_STORAGE_KEY, COLUMNS);
 
     setTableState((prev) => {
       let next = { ...prev };
@@ -142,37 +379,41 @@ export function DataTable() {
       if (Number.isFinite(pageSizeParam) && pageSizeParam > 0)
         next.pageSize = pageSizeParam;
       if (filterParam) next.filter = filterParam;
-      const allowedSortKeys: Array<keyof User> = [
-        "id",
-        "name",
-        "email",
-        "orderTotal",
-        "orderCount",
-        "createdAt",
-      ];
-      if (allowedSortKeys.includes(sortByParamRaw as keyof User)) {
-        next.sortBy = sortByParamRaw as keyof User;
-      }
-      if (sortDirParam === "asc" || sortDirParam === "desc")
-        next.sortOrder = sortDirParam;
+      if (clausesParam.length) next.clauses = clausesParam;
+      if (matchParam === "any") next.match = "any";
+      if (sortParam.length) next.sort = sortParam;
+      if (modeParam === "infinite" || modeParam === "all") next.mode = modeParam;
       return next;
     });
+    if (Number.isInteger(userParam) && userParam > 0) setSelectedUserId(userParam);
+    if (layoutParam) setLayout(layoutParam);
     // run only once on mount to hydrate from URL
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Keep URL query params in sync with table state (including sortBy & sortDir)
+  // After the URL hydration above, so a picked user wins over `user` in the URL
+  useEffect(() => {
+    if (openUser) setSelectedUserId(openUser.id);
+  }, [openUser]);
+
+  // Keep URL query params in sync with table state (including the sort stack)
   useEffect(() => {
     if (!router || !pathname) return;
     const params = new URLSearchParams();
-    params.set("page", String(tableState.page));
+    // Page numbers are meaningless once rows stream in or scroll as one list
+    if (tableState.mode !== "pages") params.set("mode", tableState.mode);
+    else params.set("page", String(tableState.page));
     params.set("pageSize", String(tableState.pageSize));
     if (tableState.filter) params.set("search", tableState.filter);
     else params.delete("search");
-    if (tableState.sortBy) params.set("sortBy", String(tableState.sortBy));
-    else params.delete("sortBy");
-    if (tableState.sortBy) params.set("sortDir", tableState.sortOrder);
-    else params.delete("sortDir");
+    const filters = filterParams({ clauses: tableState.clauses, match: tableState.match });
+    for (const [key, value] of Object.entries(filters)) {
+      params.set(key, String(value));
+    }
+    if (tableState.sort.length) params.set("sort", formatSort(tableState.sort));
+    if (selectedUserId !== null) params.set("user", String(selectedUserId));
+    const cols = formatLayout(savedLayout);
+    if (cols !== DEFAULT_COLS) params.set("cols", cols);
 
     const nextUrl = `${pathname}?${params.toString()}`;
     const current =
@@ -188,17 +429,36 @@ export function DataTable() {
     tableState.page,
     tableState.pageSize,
     tableState.filter,
-    tableState.sortBy,
-    tableState.sortOrder,
+    tableState.clauses,
+    tableState.match,
+    tableState.sort,
+    tableState.mode,
+    selectedUserId,
+    savedLayout,
   ]);
 
+  // "All matching" means matching the query it was made for; a new search or
+  // filter starts over (picked ids survive, they're still the same users)
+  useEffect(() => {
+    setSelection((prev) => (prev.mode === "matching" ? EMPTY_SELECTION : prev));
+    selectAnchorRef.current = null;
+  }, [tableState.filter, tableState.clauses, tableState.match]);
+
+  // Persist the layout for this browser once it stops changing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSavedLayout(layout);
+      saveLayout(LAYOUT_STORAGE_KEY, formatLayout(layout) === DEFAULT_COLS ? null : layout);
+    }, DEBOUNCE_DELAY);
+    return () => clearTimeout(timer);
+  }, [layout]);
+
   // Memoized handlers to prevent unnecessary re-renders
-  const handleSort = useCallback((column: keyof User) => {
+  // Shift-click adds a secondary key (see nextSort)
+  const handleSort = useCallback((column: UserSortKey, additive: boolean) => {
     setTableState((prev) => ({
       ...prev,
-      sortBy: column,
-      sortOrder:
-        prev.sortBy === column && prev.sortOrder === "asc" ? "desc" : "asc",
+      sort: nextSort(prev.sort, column, additive),
       page: 1,
     }));
   }, []);
@@ -207,6 +467,180 @@ export function DataTable() {
     setTableState((prev) => ({ ...prev, page: newPage }));
   }, []);
 
+  const handleModeChange = useCallback((mode: PaginationMode) => {
+    setTableState((prev) => ({ ...prev, mode, page: 1 }));
+  }, []);
+
+  const handleFiltersApply = useCallback(
+    (clauses: UserFilterClause[], match: FilterMatch) => {
+      setTableState((prev) => ({ ...prev, clauses, match, page: 1 }));
+    },
+    []
+  );
+
+  const handleRowClick = useCallback((row: UserListRow) => {
+    setSelectedUserId(row.id);
+  }, []);
+
+  const handleDrawerClose = useCallback(() => {
+    setSelectedUserId(null);
+  }, []);
+
+  const setRowStatus = useCallback((id: number, status: RowEditStatus | null) => {
+    setEditStatus((prev) => {
+      const next = new Map(prev);
+      if (status) next.set(id, status);
+      else next.delete(id);
+      return next;
+    });
+  }, []);
+
+  const replaceRow = useCallback((id: number, update: (row: UserListRow) => UserListRow) => {
+    const replace = (row: UserListRow) => (row.id === id ? update(row) : row);
+    setData((prev) => prev.map(replace));
+    setPageWindow((prev) => mapRows(prev, replace));
+  }, []);
+
+  // A failed read or save surfaces through the edit that awaits it
+  const rememberEtag = useCallback((id: number, etag: Promise<string | null>) => {
+    etag.catch(() => {});
+    etagsRef.current.set(id, etag);
+    return etag;
+  }, []);
+
+  // Re-read a user after a conflict so the row shows what won
+  const reloadUser = useCallback(
+    (id: number) => {
+      const read = fetchUser(id);
+      rememberEtag(id, read.then(({ etag }) => etag));
+      read.then(({ user }) => replaceRow(id, (row) => ({ ...row, ...user, highlights: undefined }))).catch(() => {});
+    },
+    [replaceRow, rememberEtag]
+  );
+
+  const handleEditStart = useCallback(
+    (row: UserListRow) => {
+      if (!etagsRef.current.has(row.id)) {
+        rememberEtag(row.id, fetchUser(row.id).then(({ etag }) => etag));
+      }
+    },
+    [rememberEtag]
+  );
+
+  // Optimistic: the row shows the new value at once and goes back to the old
+  // one if the save fails
+  const handleCellEdit = useCallback(
+    (row: UserListRow, column: keyof UserListRow, value: string) => {
+      const field = column as EditableUserField;
+      const previous = row[field];
+      const pendingEtag = etagsRef.current.get(row.id) ?? fetchUser(row.id).then(({ etag }) => etag);
+
+      // Search highlights no longer line up with the new text
+      replaceRow(row.id, (r) => ({ ...r, [field]: value, highlights: undefined }));
+      setRowStatus(row.id, { state: "saving" });
+      setEditError(null);
+
+      const save = pendingEtag.then((etag) => patchUser(row.id, { [field]: value }, etag));
+      const nextEtag = rememberEtag(row.id, save.then(({ etag }) => etag));
+      save
+        .then(({ user }) => {
+          replaceRow(row.id, (r) => ({ ...r, ...user }));
+          setRowStatus(row.id, null);
+        })
+        .catch((err: unknown) => {
+          const message = err instanceof Error ? err.message : String(err);
+          replaceRow(row.id, (r) => (r[field] === value ? { ...r, [field]: previous } : r));
+          setRowStatus(row.id, { state: "error", message });
+          setEditError(`User ${row.id} not saved: ${message}`);
+          if (err instanceof SaveError && err.status === 412) reloadUser(row.id);
+          else if (etagsRef.current.get(row.id) === nextEtag) etagsRef.current.delete(row.id);
+        });
+    },
+    [replaceRow, reloadUser, rememberEtag, setRowStatus]
+  );
+
+  const rowStatus = useCallback((row: UserListRow) => editStatus.get(row.id), [editStatus]);
+
+  const wholeList = tableState.mode === "all";
+  // Loaded rows; in whole-list mode only some of `rowCount` are
+  const rows = useMemo(() => (wholeList ? loadedRows(pageWindow) : data), [wholeList, pageWindow, data]);
+  const rowCount = wholeList ? total : data.length;
+
+  const rowWindow = useMemo<RowWindow<UserListRow> | undefined>(
+    () =>
+      wholeList
+        ? { count: total, rowAt: (index) => rowAt(pageWindow, index), onRangeRendered: handleRangeRendered }
+        : undefined,
+    [wholeList, total, pageWindow, handleRangeRendered]
+  );
+
+  const handleToggleRow = useCallback(
+    (row: UserListRow, index: number, range: boolean) => {
+      const anchor = selectAnchorRef.current;
+      const ids: number[] = [];
+      if (range && anchor !== null) {
+        // Rows of the range that aren't loaded (whole-list mode) are skipped
+        for (let i = Math.min(anchor, index); i <= Math.max(anchor, index); i++) {
+          const id = (wholeList ? rowAt(pageWindow, i) : data[i])?.id;
+          if (id !== undefined) ids.push(id);
+        }
+      } else {
+        ids.push(row.id);
+      }
+      // The whole range takes the clicked row's new state
+      setSelection((prev) => setSelected(prev, ids, !isSelected(prev, row.id)));
+      selectAnchorRef.current = index;
+    },
+    [wholeList, pageWindow, data]
+  );
+
+  const rowSelection = useMemo<RowSelection<UserListRow>>(
+    () => ({ isSelected: (row) => isSelected(selection, row.id), onToggle: handleToggleRow }),
+    [selection, handleToggleRow]
+  );
+
+  const shownSelected = useMemo(() => rows.filter((row) => isSelected(selection, row.id)).length, [rows, selection]);
+  const allShownSelected = rows.length > 0 && shownSelected === rows.length;
+
+  const handleToggleShown = useCallback(() => {
+    setSelection((prev) => setSelected(prev, rows.map((row) => row.id), !allShownSelected));
+  }, [rows, allShownSelected]);
+
+  const handleSelectAllMatching = useCallback(() => {
+    setSelection({
+      mode: "matching",
+      query: {
+        search: tableState.filter,
+        filter: formatUserFilter(tableState.clauses),
+        match: tableState.match,
+      },
+      total,
+      exclude: new Set(),
+    });
+  }, [tableState.filter, tableState.clauses, tableState.match, total]);
+
+  const handleClearSelection = useCallback(() => {
+    setSelection(EMPTY_SELECTION);
+    selectAnchorRef.current = null;
+  }, []);
+
+  const handleBulkDeleted = useCallback(() => {
+    handleClearSelection();
+    fetchData(tableState);
+  }, [handleClearSelection, fetchData, tableState]);
+
+  const handleColumnResize = useCallback((column: string, width: number) => {
+    setLayout((prev) => resizeColumn(prev, column, width));
+  }, []);
+
+  const handleColumnMove = useCallback((column: string, target: string) => {
+    setLayout((prev) => moveColumn(prev, column, target));
+  }, []);
+
+  const handleLayoutReset = useCallback(() => {
+    setLayout(DEFAULT_LAYOUT);
+  }, []);
+
   const handleFilterChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       debouncedSetFilter(e.target.value);
@@ -214,6 +648,20 @@ export function DataTable() {
     [debouncedSetFilter]
   );
 
+  // Visible columns in display order, pinned ones first
+  const columns = useMemo(() => applyLayout(COLUMNS, layout), [layout]);
+  const totalWidth = useMemo(
+    () => columns.reduce((sum, col) => sum + col.width, SELECT_COLUMN_WIDTH),
+    [columns]
+  );
+
+  // Keyboard navigation over the header and rows (checkbox column first)
+  const { active: activeCell, gridProps } = useGridNavigation({
+    rowCount,
+    colCount: columns.length + 1,
+    pageRows: VISIBLE_ROWS,
+  });
+
   // Memoized pagination info
   const paginationInfo = useMemo(() => {
     const totalPages = Math.ceil(total / tableState.pageSize);
@@ -223,53 +671,18 @@ export function DataTable() {
     return { totalPages, startItem, endItem };
   }, [total, tableState.page, tableState.pageSize]);
 
-  // Memoized column definitions
-  const columns = useMemo(
-    () => [
-      {
-        key: "id" as keyof User,
-        label: "ID",
-        width: 80,
-        sortable: true,
-      },
-      {
-        key: "name" as keyof User,
-        label: "Name",
-        width: 200,
-        sortable: true,
-      },
-      {
-        key: "email" as keyof User,
-        label: "Email",
-        width: 250,
-        sortable: true,
-      },
-      {
-        key: "orderTotal" as keyof User,
-        label: "Total Order Amount",
-        width: 180,
-        sortable: true,
-      },
-      {
-        key: "orderCount" as keyof User,
-        label: "Orders",
-        width: 100,
-        sortable: true,
-      },
-      {
-        key: "createdAt" as keyof User,
-        label: "Last Order",
-        width: 150,
-        sortable: true,
-      },
-    ],
-    []
-  );
-
-  // Total width for horizontal scrolling alignment
-  const totalWidth = useMemo(
-    () => columns.reduce((sum, col) => sum + col.width, 0),
-    [columns]
+  // Exports cover every matching row in the current order, not just this page
+  const exportUrl = useCallback(
+    (format: ExportFormat) => {
+      const query: QueryParams<UsersExportQuery> = {
+        format,
+        search: tableState.filter,
+        ...filterParams(tableState),
+        ...(tableState.sort.length > 0 && { sort: formatSort(tableState.sort) }),
+      };
+      return `${process.env.NEXT_PUBLIC_API_URL}/users/export?${toSearchParams(query)}`;
+    },
+    [tableState]
   );
 
   if (error) {
@@ -305,79 +718,184 @@ export function DataTable() {
           />
         </div>
 
+        <button
+          className={`flex items-center gap-2 px-3 py-2 border rounded-md text-sm transition-colors ${
+            tableState.clauses.length
+              ? "border-blue-500 text-blue-600 bg-blue-50"
+              : "border-gray-300 text-gray-700 hover:bg-gray-50"
+          }`}
+          aria-expanded={showFilters}
+          onClick={() => setShowFilters((open) => !open)}
+        >
+          <Filter className="h-4 w-4" />
+          Filters{tableState.clauses.length > 0 && ` (${tableState.clauses.length})`}
+        </button>
+
+        <button
+          className={`flex items-center gap-2 px-3 py-2 border rounded-md text-sm transition-colors ${
+            showColumns
+              ? "border-blue-500 text-blue-600 bg-blue-50"
+              : "border-gray-300 text-gray-700 hover:bg-gray-50"
+          }`}
+          aria-expanded={showColumns}
+          onClick={() => setShowColumns((open) => !open)}
+        >
+          <Columns3 className="h-4 w-4" />
+          Columns
+        </button>
+
         <div className="text-sm text-gray-500">
           {loading ? (
             <div className="h-4 w-32 bg-gray-200 rounded animate-pulse"></div>
+          ) : tableState.mode === "infinite" ? (
+            `${data.length} of ${total} users loaded`
+          ) : wholeList ? (
+            `${total} users`
           ) : (
             `${paginationInfo.startItem}-${paginationInfo.endItem} of ${total} users`
           )}
         </div>
+
+        <div className="ml-auto flex items-center gap-2 text-sm">
+          <Download className="h-4 w-4 text-gray-400" />
+          {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map((format) => (
+            <a
+              key={format}
+              href={exportUrl(format)}
+              download
+              className="px-2 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+              title={`Export all matching users as ${EXPORT_LABELS[format]}`}
+            >
+              {EXPORT_LABELS[format]}
+            </a>
+          ))}
+        </div>
+
+        <div className="flex items-center border border-gray-300 rounded-md overflow-hidden text-sm">
+          {(Object.keys(MODE_LABELS) as PaginationMode[]).map((mode) => (
+            <button
+              key={mode}
+              className={`px-3 py-1 transition-colors ${
+                tableState.mode === mode
+                  ? "bg-blue-500 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+              onClick={() => handleModeChange(mode)}
+            >
+              {MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {/* Table */}
-      <div className="border border-gray-200 rounded-lg overflow-x-auto max-w-fit">
-        {/* Table Header */}
-        <div
-          className="bg-gray-50 border-b border-gray-200"
-          style={{ width: totalWidth }}
-        >
-          <div className="flex">
-            {columns.map((column) => (
-              <div
-                key={column.key}
-                className="flex items-center gap-2 p-3 font-medium text-sm border-r border-gray-200 last:border-r-0"
-                style={{ width: column.width, minWidth: column.width }}
-              >
-                <span>{column.label}</span>
-                {column.sortable && (
-                  <button
-                    className="h-4 w-4 p-0 hover:bg-gray-200 rounded transition-colors flex items-center justify-center"
-                    onClick={() => handleSort(column.key)}
-                  >
-                    {tableState.sortBy === column.key ? (
-                      tableState.sortOrder === "asc" ? (
-                        <ChevronUp className="h-3 w-3" />
-                      ) : (
-                        <ChevronDown className="h-3 w-3" />
-                      )
-                    ) : (
-                      <div className="h-3 w-3" />
-                    )}
-                  </button>
-                )}
-              </div>
-            ))}
-          </div>
+      {showFilters && (
+        <UserFilterBuilder
+          clauses={tableState.clauses}
+          match={tableState.match}
+          onApply={handleFiltersApply}
+        />
+      )}
+
+      {showColumns && (
+        <ColumnMenu
+          layout={layout}
+          labels={COLUMN_LABELS}
+          onChange={setLayout}
+          onReset={handleLayoutReset}
+        />
+      )}
+
+      {editError && (
+        <div className="flex items-center gap-2 mb-4 px-3 py-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <span className="flex-1">{editError}</span>
+          <button
+            className="p-1 text-red-400 hover:text-red-700"
+            aria-label="Dismiss"
+            onClick={() => setEditError(null)}
+          >
+            <X className="h-4 w-4" />
+          </button>
         </div>
+      )}
+
+      <UserBulkBar
+        selection={selection}
+        allShownSelected={allShownSelected}
+        total={total}
+        sort={formatSort(tableState.sort)}
+        onSelectAllMatching={handleSelectAllMatching}
+        onClear={handleClearSelection}
+        onDeleted={handleBulkDeleted}
+      />
+
+      {/* Table */}
+      <div
+        {...gridProps}
+        aria-label="Users"
+        aria-rowcount={total + 1}
+        aria-colcount={columns.length + 1}
+        aria-busy={loading}
+        className="border border-gray-200 rounded-lg overflow-hidden max-w-fit"
+      >
+        <TableHeader
+          columns={columns}
+          width={totalWidth}
+          sort={tableState.sort}
+          onSort={handleSort}
+          multiSort
+          scrollRef={headerRef}
+          onResize={handleColumnResize}
+          onMove={handleColumnMove}
+          selectAll={{
+            checked: allShownSelected,
+            indeterminate: shownSelected > 0 && !allShownSelected,
+            onChange: handleToggleShown,
+          }}
+          activeCol={activeCell.row === 0 ? activeCell.col : undefined}
+        />
 
         {/* Table Body */}
         {loading && data.length === 0 ? (
-          <div className="p-8" style={{ width: totalWidth }}>
-            <div className="space-y-3">
-              {Array.from({ length: 10 }).map((_, i) => (
-                <div key={i} className="flex gap-4">
-                  {columns.map((column) => (
-                    <div
-                      key={column.key}
-                      className="h-4 bg-gray-200 rounded animate-pulse"
-                      style={{ width: column.width - 24 }}
-                    />
-                  ))}
-                </div>
-              ))}
+          <TableSkeleton columns={columns} width={totalWidth} />
+        ) : data.length === 0 ? (
+          <div role="row">
+            <div role="gridcell" aria-colspan={columns.length + 1} className="p-8 text-center text-gray-500">
+              No users found
             </div>
           </div>
-        ) : data.length === 0 ? (
-          <div className="p-8 text-center text-gray-500">No users found</div>
         ) : (
-          <div style={{ width: totalWidth }}>
-            <VirtualizedTable data={data} columns={columns} loading={loading} />
+          <div>
+            <VirtualizedTable
+              data={data}
+              columns={columns}
+              loading={loading}
+              headerRef={headerRef}
+              onEditStart={handleEditStart}
+              onEdit={handleCellEdit}
+              rowStatus={rowStatus}
+              selection={rowSelection}
+              activeCell={activeCell}
+              rowWindow={rowWindow}
+              rowIndexOffset={
+                tableState.mode === "pages" ? (tableState.page - 1) * tableState.pageSize : 0
+              }
+              onEndReached={
+                tableState.mode === "infinite" ? loadMore : undefined
+              }
+              onRowClick={handleRowClick}
+            />
+            {loadingMore && (
+              <div className="p-3 text-center text-sm text-gray-500">
+                Loading more users...
+              </div>
+            )}
           </div>
         )}
       </div>
 
       {/* Pagination */}
-      {total > 0 && (
+      {tableState.mode === "pages" && total > 0 && (
         <div className="flex items-center justify-between mt-6">
           <div className="text-sm text-gray-500">
             Page {tableState.page} of {paginationInfo.totalPages}
@@ -402,6 +920,14 @@ export function DataTable() {
           </div>
         </div>
       )}
+
+      {selectedUserId !== null && (
+        <UserDetailDrawer
+          key={selectedUserId}
+          userId={selectedUserId}
+          onClose={handleDrawerClose}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,31 @@
+import type React from "react";
+import type { Highlight } from "shared";
+
+interface HighlightedTextProps {
+  text: string;
+  // Matched ranges as a search response gives them, in text order
+  ranges?: Highlight[];
+  markClassName?: string;
+}
+
+// `text` with the ranges the server matched wrapped in <mark>, so what is
+// marked is exactly what the search found (typos and prefixes included).
+// Ranges that don't fit the text, e.g. after an edit, are skipped.
+export function HighlightedText({ text, ranges, markClassName = "bg-yellow-200 rounded" }: HighlightedTextProps) {
+  if (!ranges?.length) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const { start, end } of ranges) {
+    if (start < at || end <= start || end > text.length) continue;
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={start} className={markClassName}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  }
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+}
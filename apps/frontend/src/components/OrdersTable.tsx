@@ -0,0 +1,52 @@
+"use client";
+
+import type { OrderRow, OrderSortKey } from "shared";
+import { PagedTable } from "./PagedTable";
+import type { TableColumn } from "./VirtualizedTable";
+import { formatCurrency, formatDate } from "../lib/format";
+
+// Products and users can be deleted out from under an order, leaving null names
+const COLUMNS: TableColumn<OrderRow, OrderSortKey>[] = [
+  { key: "id", label: "ID", width: 80, sortKey: "id" },
+  {
+    key: "createdAt",
+    label: "Date",
+    width: 150,
+    sortKey: "createdAt",
+    format: (order) => formatDate(order.createdAt),
+    className: "text-gray-500",
+  },
+  {
+    key: "userName",
+    label: "User",
+    width: 200,
+    sortKey: "userId",
+    format: (order) => order.userName ?? `User ${order.userId} (deleted)`,
+  },
+  {
+    key: "productName",
+    label: "Product",
+    width: 200,
+    sortKey: "productId",
+    format: (order) => order.productName ?? `Product ${order.productId} (deleted)`,
+  },
+  {
+    key: "productPrice",
+    label: "List Price",
+    width: 130,
+    format: (order) => (order.productPrice === null ? "—" : formatCurrency(order.productPrice)),
+    className: "text-gray-500",
+  },
+  {
+    key: "amount",
+    label: "Amount",
+    width: 130,
+    sortKey: "amount",
+    format: (order) => formatCurrency(order.amount),
+    className: "font-medium text-green-600",
+  },
+];
+
+export function OrdersTable() {
+  return <PagedTable resource="orders" noun="orders" columns={COLUMNS} />;
+}
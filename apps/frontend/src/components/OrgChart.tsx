@@ -1,12 +1,15 @@
 "use client";
 
 import React, {
+  memo,
   useState,
   useEffect,
   useCallback,
+  useLayoutEffect,
   useMemo,
   useRef,
 } from "react";
+import { FixedSizeList as List, type ListChildComponentProps } from "react-window";
 import {
   ChevronRight,
   ChevronDown,
@@ -14,33 +17,57 @@ import {
   Folder,
   File,
   AlertCircle,
+  Undo2,
+  Redo2,
 } from "lucide-react";
-
-export interface Node {
-  id: string;
-  parentId: string | null;
-  name: string;
-  hasChildren: boolean;
-}
-
-export interface SearchResult {
-  id: string;
-  name: string;
-  path: { id: string; name: string }[];
-}
-
-interface TreeNode extends Node {
-  children?: TreeNode[];
-  loading?: boolean;
-  level: number;
-}
+import type { Node, NodePathEntry, NodeSearchQuery, SearchResult } from "shared";
+import { toSearchParams } from "../lib/api";
+import {
+  type NodeMove,
+  type TreeNode,
+  applyMove,
+  applyRootMove,
+  canMoveTo,
+  fetchChildPage,
+  isWithin,
+  moveNodeTo,
+} from "../lib/orgTree";
+import { HighlightedText } from "./HighlightedText";
+
+// Moves kept for undo
+const HISTORY_LIMIT = 20;
+// How long a dragged node has to hover over a collapsed folder to open it
+const DRAG_EXPAND_DELAY = 600;
+// Children per page; revealing a node deep in a long list takes bigger pages
+const CHILDREN_PAGE_SIZE = 100;
+const REVEAL_PAGE_SIZE = 1000;
+const ROW_HEIGHT = 32;
+const TREE_HEIGHT = 384;
+
+// The tree flattened to what is on screen: expanded nodes' loaded children
+// follow them, then a "load more" row while some are still on the server
+type TreeRow = { kind: "node"; node: TreeNode } | { kind: "more"; parent: TreeNode };
+
+const rowKey = (row: TreeRow) => (row.kind === "node" ? row.node.id : `more:${row.parent.id}`);
+
+type RowData = {
+  rows: TreeRow[];
+  renderRow: (row: TreeRow, style: React.CSSProperties) => React.ReactNode;
+};
+
+const TreeRowView = memo(function TreeRowView({ index, style, data }: ListChildComponentProps<RowData>) {
+  return data.renderRow(data.rows[index], style);
+});
 
 interface OrgChartProps {
   apiUrl?: string;
+  // Root-to-node path of a node to expand down to and scroll into view
+  reveal?: NodePathEntry[];
 }
 
 export function OrgChart({
   apiUrl = process.env.NEXT_PUBLIC_API_URL,
+  reveal,
 }: OrgChartProps) {
   // Core state management
   const [nodesMap, setNodesMap] = useState<Map<string, TreeNode>>(
@@ -55,10 +82,28 @@ export function OrgChart({
   const [error, setError] = useState<string | null>(null);
   const [rootNodeIds, setRootNodeIds] = useState<string[]>([]);
   const [isAutoExpanding, setIsAutoExpanding] = useState(false);
+  // Path still being expanded for `reveal`, and the node it ended on
+  const [revealing, setRevealing] = useState<NodePathEntry[] | null>(null);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  // Reorganizing: the node being dragged or cut (Ctrl+X), the folder under
+  // the pointer ("" for the top level), and the moves to undo and redo
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [cutId, setCutId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [undoStack, setUndoStack] = useState<NodeMove[]>([]);
+  const [redoStack, setRedoStack] = useState<NodeMove[]>([]);
+  const [moving, setMoving] = useState(false);
+  const [moveStatus, setMoveStatus] = useState<{ message: string; error?: boolean } | null>(null);
 
   // Refs for optimization
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const dragExpandRef = useRef<{ id: string; timer: NodeJS.Timeout } | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const listRef = useRef<List<RowData>>(null);
+  // The row at the top of the tree's viewport and how far it is scrolled past
+  const scrollAnchorRef = useRef<{ key: string; offset: number } | null>(null);
+  // The revealed node until the list has scrolled to it
+  const pendingScrollRef = useRef<string | null>(null);
 
   // Fetch root nodes
   const fetchRootNodes = useCallback(async () => {
@@ -105,7 +150,7 @@ export function OrgChart({
     }
   }, [searchQuery]);
 
-  // Fetch children for a specific node
+  // Fetch the first page of children for a specific node
   const fetchChildren = useCallback(
     async (nodeId: string, level: number) => {
       try {
@@ -114,26 +159,27 @@ export function OrgChart({
         }
         abortControllerRef.current = new AbortController();
 
-        const response = await fetch(`${apiUrl}/nodes/${nodeId}/children`, {
-          signal: abortControllerRef.current.signal,
-        });
-
-        if (!response.ok)
-          throw new Error(`HTTP error! status: ${response.status}`);
-        const children: Node[] = await response.json();
+        const page = await fetchChildPage(
+          nodeId,
+          { pageSize: CHILDREN_PAGE_SIZE },
+          abortControllerRef.current.signal
+        );
 
-        return children.map((child) => ({
-          ...child,
-          level: level + 1,
-        }));
+        return {
+          ...page,
+          items: page.items.map((child) => ({
+            ...child,
+            level: level + 1,
+          })),
+        };
       } catch (err) {
         if (err instanceof Error && err.name !== "AbortError") {
           console.error("Failed to fetch children:", err);
         }
-        return [];
+        return { items: [], total: 0, nextCursor: null };
       }
     },
-    [apiUrl]
+    []
   );
 
   // Search nodes with debouncing
@@ -150,12 +196,10 @@ export function OrgChart({
         }
         abortControllerRef.current = new AbortController();
 
-        const response = await fetch(
-          `${apiUrl}/search?q=${encodeURIComponent(query)}&limit=100`,
-          {
-            signal: abortControllerRef.current.signal,
-          }
-        );
+        const params = toSearchParams<NodeSearchQuery>({ q: query, limit: 100 });
+        const response = await fetch(`${apiUrl}/search?${params}`, {
+          signal: abortControllerRef.current.signal,
+        });
 
         if (!response.ok)
           throw new Error(`HTTP error! status: ${response.status}`);
@@ -226,10 +270,10 @@ export function OrgChart({
 
         try {
           // Fetch children
-          const children = await fetchChildren(nodeId, node.level);
+          const page = await fetchChildren(nodeId, node.level);
 
           // Ensure no duplicate children in the array
-          const uniqueChildren = children.filter(
+          const uniqueChildren = page.items.filter(
             (child, index, self) =>
               index === self.findIndex((c) => c.id === child.id)
           );
@@ -246,6 +290,8 @@ export function OrgChart({
             const updatedNode = {
               ...node,
               children: uniqueChildren,
+              nextCursor: page.nextCursor,
+              childCount: page.total,
               loading: false,
             };
             newMap.set(nodeId, updatedNode);
@@ -265,6 +311,53 @@ export function OrgChart({
     [nodesMap, expandedIds, fetchChildren]
   );
 
+  // Appends the next page of an expanded node's children. Ones already
+  // listed aren't added twice.
+  const loadMoreChildren = useCallback(
+    async (nodeId: string, pageSize = CHILDREN_PAGE_SIZE) => {
+      const node = nodesMap.get(nodeId);
+      if (!node?.nextCursor || node.loading) return;
+
+      const setLoading = (loading: boolean) =>
+        setNodesMap((prev) => {
+          const current = prev.get(nodeId);
+          if (!current) return prev;
+          const newMap = new Map(prev);
+          newMap.set(nodeId, { ...current, loading });
+          return newMap;
+        });
+
+      setLoading(true);
+      try {
+        const page = await fetchChildPage(nodeId, { pageSize, cursor: node.nextCursor });
+        setNodesMap((prev) => {
+          const parent = prev.get(nodeId);
+          if (!parent) return prev;
+          const newMap = new Map(prev);
+          const listed = new Set(parent.children?.map((child) => child.id));
+          const added = page.items
+            .filter((child) => !listed.has(child.id))
+            .map((child) => ({ ...child, level: parent.level + 1 }));
+          added.forEach((child) => {
+            if (!newMap.has(child.id)) newMap.set(child.id, child);
+          });
+          newMap.set(nodeId, {
+            ...parent,
+            children: [...(parent.children ?? []), ...added],
+            nextCursor: page.nextCursor,
+            childCount: page.total,
+            loading: false,
+          });
+          return newMap;
+        });
+      } catch (err) {
+        console.error("Failed to fetch children:", err);
+        setLoading(false);
+      }
+    },
+    [nodesMap]
+  );
+
   const expandNodeIfNeeded = useCallback(
     async (nodeId: string) => {
       if (!expandedIds.has(nodeId)) {
@@ -326,6 +419,172 @@ export function OrgChart({
     }
   }, [searchResults, expandSearchPaths, searchQuery, isAutoExpanding]);
 
+  useEffect(() => {
+    if (!reveal?.length) return;
+    setRevealing(reveal);
+    setRevealedId(null);
+    pendingScrollRef.current = null;
+  }, [reveal]);
+
+  // Expand one ancestor at a time: each one's children have to load before
+  // the next ancestor is in the map to expand. One that sits past the pages
+  // loaded so far takes further (bigger) pages; if the last page still
+  // doesn't have it, it has gone and the reveal stops.
+  useEffect(() => {
+    if (!revealing) return;
+    for (let i = 0; i < revealing.length; i++) {
+      const node = nodesMap.get(revealing[i].id);
+      if (!node) {
+        const parent = i > 0 ? nodesMap.get(revealing[i - 1].id) : undefined;
+        if (parent?.children && !parent.loading) {
+          if (parent.nextCursor) loadMoreChildren(parent.id, REVEAL_PAGE_SIZE);
+          else setRevealing(null);
+        }
+        return;
+      }
+      if (i < revealing.length - 1 && !expandedIds.has(node.id)) {
+        if (!node.loading) expandNode(node.id);
+        return;
+      }
+    }
+
+    const target = revealing[revealing.length - 1];
+    setRevealing(null);
+    setRevealedId(target.id);
+    pendingScrollRef.current = target.id;
+  }, [revealing, nodesMap, expandedIds, expandNode, loadMoreChildren]);
+
+  const nameOf = useCallback(
+    (id: string | null) => (id === null ? "the top level" : nodesMap.get(id)?.name ?? id),
+    [nodesMap]
+  );
+
+  // Moves on the server, then patches the loaded tree in place
+  const moveNode = useCallback(
+    async (nodeId: string, to: string | null) => {
+      setMoving(true);
+      try {
+        const moved = await moveNodeTo(nodeId, to);
+        setNodesMap((prev) => applyMove(prev, moved));
+        setRootNodeIds((prev) => applyRootMove(prev, moved));
+        setMoveStatus({ message: `Moved ${moved.name} to ${nameOf(to)}` });
+        return true;
+      } catch (err) {
+        setMoveStatus({ message: err instanceof Error ? err.message : "Move failed", error: true });
+        return false;
+      } finally {
+        setMoving(false);
+      }
+    },
+    [nameOf]
+  );
+
+  // A user's move: recorded for undo, and it drops anything to redo
+  const move = useCallback(
+    async (nodeId: string, to: string | null) => {
+      if (moving) return;
+      if (!canMoveTo(nodesMap, nodeId, to)) {
+        setMoveStatus({ message: `Can't move ${nameOf(nodeId)} to ${nameOf(to)}`, error: true });
+        return;
+      }
+      const from = nodesMap.get(nodeId)!.parentId;
+      if (await moveNode(nodeId, to)) {
+        setUndoStack((prev) => [...prev, { nodeId, from, to }].slice(-HISTORY_LIMIT));
+        setRedoStack([]);
+      }
+    },
+    [moving, nodesMap, nameOf, moveNode]
+  );
+
+  const undo = useCallback(async () => {
+    const last = undoStack[undoStack.length - 1];
+    if (!last || moving) return;
+    setUndoStack((prev) => prev.slice(0, -1));
+    if (await moveNode(last.nodeId, last.from)) setRedoStack((prev) => [...prev, last]);
+  }, [undoStack, moving, moveNode]);
+
+  const redo = useCallback(async () => {
+    const last = redoStack[redoStack.length - 1];
+    if (!last || moving) return;
+    setRedoStack((prev) => prev.slice(0, -1));
+    if (await moveNode(last.nodeId, last.to)) setUndoStack((prev) => [...prev, last]);
+  }, [redoStack, moving, moveNode]);
+
+  const clearDrag = useCallback(() => {
+    if (dragExpandRef.current) clearTimeout(dragExpandRef.current.timer);
+    dragExpandRef.current = null;
+    setDragId(null);
+    setDropTarget(null);
+  }, []);
+
+  // Only valid targets accept the drop; resting on a collapsed one opens it
+  const handleDragOver = useCallback(
+    (e: React.DragEvent, node: TreeNode) => {
+      const valid = dragId !== null && canMoveTo(nodesMap, dragId, node.id);
+      if (dragExpandRef.current?.id !== node.id) {
+        if (dragExpandRef.current) clearTimeout(dragExpandRef.current.timer);
+        dragExpandRef.current =
+          valid && node.hasChildren && !expandedIds.has(node.id)
+            ? { id: node.id, timer: setTimeout(() => expandNode(node.id), DRAG_EXPAND_DELAY) }
+            : null;
+      }
+      setDropTarget(valid ? node.id : null);
+      if (!valid) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+    },
+    [dragId, nodesMap, expandedIds, expandNode]
+  );
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent, to: string | null) => {
+      e.preventDefault();
+      const nodeId = dragId;
+      clearDrag();
+      if (nodeId) move(nodeId, to);
+    },
+    [dragId, clearDrag, move]
+  );
+
+  const paste = useCallback(
+    (to: string | null) => {
+      if (!cutId) return;
+      setCutId(null);
+      move(cutId, to);
+    },
+    [cutId, move]
+  );
+
+  // Keyboard alternative to dragging: Ctrl+X on a row, Ctrl+V on the new
+  // parent (Escape cancels); Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo
+  const handleTreeKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      const withModifier = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+      const rowId = (e.target as HTMLElement).closest<HTMLElement>("[data-node-id]")?.dataset.nodeId;
+
+      if (withModifier && key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (withModifier && key === "y") {
+        e.preventDefault();
+        redo();
+      } else if (withModifier && key === "x" && rowId) {
+        e.preventDefault();
+        setCutId(rowId);
+        setMoveStatus({ message: `Cut ${nameOf(rowId)}: press Ctrl+V on its new parent, or Escape to cancel` });
+      } else if (withModifier && key === "v" && rowId && cutId) {
+        e.preventDefault();
+        paste(rowId);
+      } else if (e.key === "Escape" && cutId) {
+        setCutId(null);
+        setMoveStatus(null);
+      }
+    },
+    [cutId, nameOf, paste, undo, redo]
+  );
+
   // Check if a node is in search results
   const isSearchMatch = useCallback(
     (nodeId: string) => {
@@ -344,31 +603,28 @@ export function OrgChart({
     [searchResults]
   );
 
-  // Highlight search matches in text
-  const highlightText = useCallback((text: string, query: string) => {
-    if (!query.trim()) return text;
+  // Matched ranges of each result's name, as the server found them
+  const nameHighlights = useMemo(
+    () => new Map(searchResults.map((result) => [result.id, result.highlights.name])),
+    [searchResults]
+  );
 
-    const regex = new RegExp(
-      `(${query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`,
-      "gi"
-    );
-    const parts = text.split(regex);
-
-    return parts.map((part, index) =>
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 px-1 rounded">
-          {part}
-        </mark>
-      ) : (
-        part
-      )
-    );
-  }, []);
+  // Highlight what the search matched in a node's name
+  const highlightText = useCallback(
+    (text: string, nodeId: string) => (
+      <HighlightedText
+        text={text}
+        ranges={nameHighlights.get(nodeId)}
+        markClassName="bg-yellow-200 px-1 rounded"
+      />
+    ),
+    [nameHighlights]
+  );
 
-  // Get visible nodes (only expanded branches)
-  const getVisibleNodes = useCallback(
-    (nodeIds: string[]): TreeNode[] => {
-      const visible: TreeNode[] = [];
+  // Get visible rows (only expanded branches)
+  const getVisibleRows = useCallback(
+    (nodeIds: string[]): TreeRow[] => {
+      const visible: TreeRow[] = [];
       const seenIds = new Set<string>();
 
       const traverse = (ids: string[]) => {
@@ -377,15 +633,12 @@ export function OrgChart({
           if (!node || seenIds.has(id)) return;
 
           seenIds.add(id);
-          visible.push(node);
+          visible.push({ kind: "node", node });
 
           // Show children if node is expanded and has children
-          if (
-            expandedIds.has(id) &&
-            node.children &&
-            node.children.length > 0
-          ) {
+          if (expandedIds.has(id) && node.children) {
             traverse(node.children.map((child) => child.id));
+            if (node.nextCursor) visible.push({ kind: "more", parent: node });
           }
         });
       };
@@ -396,26 +649,75 @@ export function OrgChart({
     [nodesMap, expandedIds]
   );
 
-  // Memoized visible nodes
-  const visibleNodes = useMemo(
-    () => getVisibleNodes(rootNodeIds),
-    [getVisibleNodes, rootNodeIds]
+  // Memoized visible rows
+  const visibleRows = useMemo(
+    () => getVisibleRows(rootNodeIds),
+    [getVisibleRows, rootNodeIds]
   );
 
+  // Rows added or removed above the viewport (a search expanding paths, a
+  // move) would shift what is on screen; keep the top row where it was
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    if (!anchor) return;
+    const index = visibleRows.findIndex((row) => rowKey(row) === anchor.key);
+    if (index >= 0) listRef.current?.scrollTo(index * ROW_HEIGHT + anchor.offset);
+  }, [visibleRows]);
+
+  const handleListScroll = useCallback(
+    ({ scrollOffset }: { scrollOffset: number }) => {
+      const index = Math.floor(scrollOffset / ROW_HEIGHT);
+      const row = visibleRows[index];
+      scrollAnchorRef.current = row ? { key: rowKey(row), offset: scrollOffset - index * ROW_HEIGHT } : null;
+    },
+    [visibleRows]
+  );
+
+  // Rows outside the viewport aren't rendered, so the revealed one is
+  // scrolled to by index, once; if its row isn't listed yet (a refetch or
+  // collapse got in between), later row changes try again
+  useEffect(() => {
+    if (!revealedId || pendingScrollRef.current !== revealedId || !listRef.current) return;
+    const index = visibleRows.findIndex((row) => row.kind === "node" && row.node.id === revealedId);
+    if (index < 0) return;
+    listRef.current.scrollToItem(index, "smart");
+    pendingScrollRef.current = null;
+  }, [revealedId, visibleRows]);
+
   // Render a single tree node
   const renderNode = useCallback(
-    (node: TreeNode) => {
+    (node: TreeNode, style: React.CSSProperties) => {
       const isMatch = isSearchMatch(node.id);
       const inPath = isInSearchPath(node.id);
       const isExpanded = expandedIds.has(node.id);
+      // While a node is dragged or cut, outline where it could go and dim
+      // its own subtree
+      const mover = dragId ?? cutId;
+      const isDropTarget = dropTarget === node.id;
+      const canDrop = mover !== null && canMoveTo(nodesMap, mover, node.id);
+      const isMoving = mover !== null && isWithin(nodesMap, node.id, mover);
 
       return (
-        <div key={node.id} className="select-none">
+        <div style={style} className="select-none">
           <div
+            data-node-id={node.id}
+            tabIndex={0}
+            draggable={!moving}
+            onDragStart={(e) => {
+              e.dataTransfer.setData("text/plain", node.id);
+              e.dataTransfer.effectAllowed = "move";
+              setDragId(node.id);
+            }}
+            onDragOver={(e) => handleDragOver(e, node)}
+            onDrop={(e) => handleDrop(e, node.id)}
+            onDragEnd={clearDrag}
             className={`
-            flex items-center gap-2 px-2 py-1 rounded cursor-pointer hover:bg-gray-100 transition-colors
+            flex items-center gap-2 h-full px-2 rounded cursor-pointer hover:bg-gray-100 transition-colors focus:outline-none focus-visible:ring-inset focus-visible:ring-2 focus-visible:ring-blue-300
             ${isMatch ? "bg-yellow-100 border border-yellow-300" : ""}
             ${inPath && !isMatch ? "bg-blue-50" : ""}
+            ${node.id === revealedId ? "ring-2 ring-inset ring-blue-500" : ""}
+            ${isDropTarget ? "bg-blue-100 ring-2 ring-inset ring-blue-400" : canDrop ? "outline-dashed outline-1 -outline-offset-1 outline-blue-300" : ""}
+            ${isMoving ? "opacity-50" : ""}
           `}
             style={{ paddingLeft: `${node.level * 20 + 8}px` }}
           >
@@ -443,25 +745,65 @@ export function OrgChart({
               <File className="w-4 h-4 text-gray-400" />
             )}
 
-            <span className={`text-sm ${isMatch ? "font-semibold" : ""}`}>
-              {highlightText(node.name, searchQuery)}
+            <span className={`text-sm truncate ${isMatch ? "font-semibold" : ""}`}>
+              {highlightText(node.name, node.id)}
             </span>
           </div>
 
-          {/* Children are rendered separately in the visibleNodes array */}
+          {/* Children are rendered separately in the visibleRows array */}
         </div>
       );
     },
     [
       expandedIds,
+      revealedId,
+      nodesMap,
+      dragId,
+      cutId,
+      dropTarget,
+      moving,
       isSearchMatch,
       isInSearchPath,
       highlightText,
-      searchQuery,
       expandNode,
+      handleDragOver,
+      handleDrop,
+      clearDrag,
     ]
   );
 
+  // The rest of a parent's children, a page per click
+  const renderLoadMore = useCallback(
+    (parent: TreeNode, style: React.CSSProperties) => {
+      const shown = parent.children?.length ?? 0;
+      return (
+        <div style={style} className="flex items-center">
+          <button
+            onClick={() => loadMoreChildren(parent.id)}
+            disabled={parent.loading}
+            className="flex items-center gap-2 px-2 py-1 text-xs text-blue-600 rounded hover:bg-blue-50 disabled:text-gray-400 disabled:hover:bg-transparent"
+            style={{ marginLeft: `${(parent.level + 1) * 20 + 8}px` }}
+          >
+            {parent.loading && (
+              <div className="w-3 h-3 border-2 border-gray-300 border-t-blue-500 rounded-full animate-spin" />
+            )}
+            Load more ({shown.toLocaleString()} of {(parent.childCount ?? shown).toLocaleString()} shown)
+          </button>
+        </div>
+      );
+    },
+    [loadMoreChildren]
+  );
+
+  const itemData = useMemo<RowData>(
+    () => ({
+      rows: visibleRows,
+      renderRow: (row, style) =>
+        row.kind === "node" ? renderNode(row.node, style) : renderLoadMore(row.parent, style),
+    }),
+    [visibleRows, renderNode, renderLoadMore]
+  );
+
   // Render search results
   const renderSearchResults = useCallback(() => {
     if (!searchQuery.trim()) return null;
@@ -475,13 +817,13 @@ export function OrgChart({
           {searchResults.map((result) => (
             <div key={result.id} className="text-sm">
               <div className="font-medium text-blue-600">
-                {highlightText(result.name, searchQuery)}
+                {highlightText(result.name, result.id)}
               </div>
               <div className="text-gray-500 text-xs">
                 {result.path.map((pathNode, index) => (
                   <span key={pathNode.id}>
                     {index > 0 && " > "}
-                    {highlightText(pathNode.name, searchQuery)}
+                    {highlightText(pathNode.name, pathNode.id)}
                   </span>
                 ))}
               </div>
@@ -526,6 +868,26 @@ export function OrgChart({
         >
           Refresh
         </button>
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={undo}
+            disabled={!undoStack.length || moving}
+            title="Undo move (Ctrl+Z)"
+            aria-label="Undo move"
+            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!redoStack.length || moving}
+            title="Redo move (Ctrl+Shift+Z)"
+            aria-label="Redo move"
+            className="p-1.5 rounded hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
       {/* Search */}
@@ -543,8 +905,36 @@ export function OrgChart({
       {/* Search Results */}
       {renderSearchResults()}
 
+      {/* Reorganizing: a drop target for the top level, and what happened */}
+      <div className="flex items-center gap-3 mb-2 text-xs">
+        <button
+          onDragOver={(e) => {
+            if (dragId === null || !canMoveTo(nodesMap, dragId, null)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "move";
+            setDropTarget("");
+          }}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, null)}
+          onClick={() => paste(null)}
+          disabled={(dragId ?? cutId) === null || !canMoveTo(nodesMap, (dragId ?? cutId)!, null)}
+          className={`px-3 py-1 border border-dashed rounded transition-colors disabled:opacity-40 ${
+            dropTarget === "" ? "bg-blue-100 border-blue-400" : "border-gray-300"
+          }`}
+        >
+          Move to top level
+        </button>
+        <p
+          aria-live="polite"
+          className={moveStatus?.error ? "text-red-600" : "text-gray-500"}
+        >
+          {moveStatus?.message ??
+            "Drag a node onto another to move it there, or press Ctrl+X on it and Ctrl+V on the new parent."}
+        </p>
+      </div>
+
       {/* Tree */}
-      <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="border border-gray-200 rounded-lg overflow-hidden" onKeyDown={handleTreeKeyDown}>
         {loading && nodesMap.size === 0 ? (
           <div className="p-8 text-center">
             <div className="space-y-3">
@@ -565,9 +955,19 @@ export function OrgChart({
             No nodes found. Try seeding the database first.
           </div>
         ) : (
-          <div className="max-h-96 overflow-y-auto">
-            {visibleNodes.map((node) => renderNode(node))}
-          </div>
+          <List<RowData>
+            ref={listRef}
+            height={Math.min(visibleRows.length * ROW_HEIGHT, TREE_HEIGHT)}
+            width="100%"
+            itemCount={visibleRows.length}
+            itemSize={ROW_HEIGHT}
+            itemData={itemData}
+            itemKey={(index, data) => rowKey(data.rows[index])}
+            overscanCount={10}
+            onScroll={handleListScroll}
+          >
+            {TreeRowView}
+          </List>
         )}
       </div>
     </div>
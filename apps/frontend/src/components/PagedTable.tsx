@@ -0,0 +1,225 @@
+"use client";
+
+import type React from "react";
+
+import { useState, useMemo, useCallback, useRef, useEffect } from "react";
+import { Search, AlertCircle } from "lucide-react";
+import type { Page, ProductsQuery, QueryParams } from "shared";
+import { SortTerm, TableHeader } from "./TableHeader";
+import { TableColumn, TableSkeleton, VISIBLE_ROWS, VirtualizedTable } from "./VirtualizedTable";
+import { toSearchParams } from "../lib/api";
+import { useGridNavigation } from "../lib/gridNavigation";
+
+interface PagedTableProps<T, S extends string> {
+  // List endpoint under the API base URL, e.g. "products"
+  resource: string;
+  // Plural noun for counts and empty states, e.g. "products"
+  noun: string;
+  columns: TableColumn<T, S>[];
+  pageSize?: number;
+}
+
+interface PagedTableState<S extends string> {
+  page: number;
+  search: string;
+  // null leaves the endpoint's default order
+  sort: SortTerm<S> | null;
+}
+
+// Query every offset-paged list endpoint with search and single-key sort takes
+type ListQuery = QueryParams<Pick<ProductsQuery, "page" | "pageSize" | "search" | "sortBy" | "sortDir">>;
+
+const DEBOUNCE_DELAY = 250;
+
+// Searchable, sortable, numbered-page table over any `Page<T>` list endpoint.
+// Rows and cells come entirely from `columns`.
+export function PagedTable<T, S extends string>({
+  resource,
+  noun,
+  columns,
+  pageSize = 50,
+}: PagedTableProps<T, S>) {
+  const [state, setState] = useState<PagedTableState<S>>({ page: 1, search: "", sort: null });
+  const [data, setData] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const debounceRef = useRef<NodeJS.Timeout>(null);
+  const abortControllerRef = useRef<AbortController>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+
+  const fetchData = useCallback(
+    async ({ page, search, sort }: PagedTableState<S>) => {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      setLoading(true);
+      setError(null);
+
+      try {
+        const query: ListQuery = {
+          page,
+          pageSize,
+          search,
+          ...(sort && { sortBy: sort.by, sortDir: sort.dir }),
+        };
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/${resource}?${toSearchParams(query)}`,
+          { signal: abortControllerRef.current.signal }
+        );
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const result: Page<T> = await response.json();
+        setData(result.items);
+        setTotal(result.total);
+      } catch (err) {
+        if (err instanceof Error && err.name !== "AbortError") {
+          setError(err.message);
+        }
+      } finally {
+        setLoading(false);
+      }
+    },
+    [resource, pageSize]
+  );
+
+  useEffect(() => {
+    fetchData(state);
+    return () => abortControllerRef.current?.abort();
+  }, [state, fetchData]);
+
+  const handleSearchChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      setState((prev) => ({ ...prev, search: value, page: 1 }));
+    }, DEBOUNCE_DELAY);
+  }, []);
+
+  // A click sorts by the column, flipping direction when it already is the sort
+  const handleSort = useCallback((by: S) => {
+    setState((prev) => ({
+      ...prev,
+      sort: { by, dir: prev.sort?.by === by && prev.sort.dir === "asc" ? "desc" : "asc" },
+      page: 1,
+    }));
+  }, []);
+
+  const sortTerms = useMemo(() => (state.sort ? [state.sort] : []), [state.sort]);
+  const totalWidth = useMemo(() => columns.reduce((sum, col) => sum + col.width, 0), [columns]);
+  const { active: activeCell, gridProps } = useGridNavigation({
+    rowCount: data.length,
+    colCount: columns.length,
+    pageRows: VISIBLE_ROWS,
+  });
+  const totalPages = Math.ceil(total / pageSize);
+  const startItem = (state.page - 1) * pageSize + 1;
+  const endItem = Math.min(state.page * pageSize, total);
+
+  if (error) {
+    return (
+      <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-lg">
+        <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+        <div className="flex-1">
+          <p className="text-sm text-red-800">Error loading {noun}: {error}</p>
+          <button
+            className="mt-2 px-3 py-1 text-xs bg-white border border-red-300 text-red-700 rounded hover:bg-red-50 transition-colors"
+            onClick={() => fetchData(state)}
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <input
+            type="text"
+            placeholder={`Search ${noun}...`}
+            className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            onChange={handleSearchChange}
+          />
+        </div>
+
+        <div className="text-sm text-gray-500">
+          {loading ? (
+            <div className="h-4 w-32 bg-gray-200 rounded animate-pulse"></div>
+          ) : (
+            `${total ? startItem : 0}-${endItem} of ${total} ${noun}`
+          )}
+        </div>
+      </div>
+
+      <div
+        {...gridProps}
+        aria-label={noun}
+        aria-rowcount={total + 1}
+        aria-colcount={columns.length}
+        aria-busy={loading}
+        className="border border-gray-200 rounded-lg overflow-hidden max-w-fit"
+      >
+        <TableHeader
+          columns={columns}
+          width={totalWidth}
+          sort={sortTerms}
+          onSort={handleSort}
+          scrollRef={headerRef}
+          activeCol={activeCell.row === 0 ? activeCell.col : undefined}
+        />
+
+        {loading && data.length === 0 ? (
+          <TableSkeleton columns={columns} width={totalWidth} />
+        ) : data.length === 0 ? (
+          <div role="row">
+            <div role="gridcell" aria-colspan={columns.length} className="p-8 text-center text-gray-500">
+              No {noun} found
+            </div>
+          </div>
+        ) : (
+          <VirtualizedTable
+            data={data}
+            columns={columns}
+            loading={loading}
+            headerRef={headerRef}
+            activeCell={activeCell}
+            rowIndexOffset={(state.page - 1) * pageSize}
+          />
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="flex items-center justify-between mt-6">
+          <div className="text-sm text-gray-500">
+            Page {state.page} of {totalPages}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={state.page === 1 || loading}
+              onClick={() => setState((prev) => ({ ...prev, page: prev.page - 1 }))}
+            >
+              Previous
+            </button>
+
+            <button
+              className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={state.page >= totalPages || loading}
+              onClick={() => setState((prev) => ({ ...prev, page: prev.page + 1 }))}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import type { Product, ProductSortKey } from "shared";
+import { PagedTable } from "./PagedTable";
+import type { TableColumn } from "./VirtualizedTable";
+import { formatCurrency } from "../lib/format";
+
+const COLUMNS: TableColumn<Product, ProductSortKey>[] = [
+  { key: "id", label: "ID", width: 80, sortKey: "id" },
+  { key: "name", label: "Name", width: 300, sortKey: "name" },
+  {
+    key: "price",
+    label: "Price",
+    width: 150,
+    sortKey: "price",
+    format: (product) => formatCurrency(product.price),
+    className: "font-medium text-green-600",
+  },
+];
+
+export function ProductsTable() {
+  return <PagedTable resource="products" noun="products" columns={COLUMNS} />;
+}
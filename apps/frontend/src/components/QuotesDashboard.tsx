@@ -18,6 +18,7 @@ import {
   Legend,
 } from "chart.js";
 import { Bar } from "react-chartjs-2";
+import type { QuoteTick, QuotesMessage, QuotesSnapshot } from "shared";
 
 ChartJS.register(
   CategoryScale,
@@ -28,12 +29,6 @@ ChartJS.register(
   Legend
 );
 
-export interface QuoteTick {
-  symbol: string;
-  price: number;
-  ts: string;
-}
-
 interface QuoteRowProps {
   symbol: string;
   quote: QuoteTick | null;
@@ -202,7 +197,7 @@ export function QuotesDashboard({
 
       ws.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
+          const data: QuotesMessage = JSON.parse(event.data);
 
           if (data.type === "quotes" && data.items) {
 
@@ -257,8 +252,13 @@ export function QuotesDashboard({
         .replace("/ws/quotes", "/api/quotes/snapshot");
       const response = await fetch(`${apiUrl}?symbols=${symbols.join(",")}`);
       if (response.ok) {
-        const snapshot = await response.json();
-        setQuotes(snapshot);
+        const snapshot: QuotesSnapshot = await response.json();
+        // Symbols that haven't ticked yet come back as null
+        const ticked: Record<string, QuoteTick> = {};
+        for (const [symbol, tick] of Object.entries(snapshot)) {
+          if (tick) ticked[symbol] = tick;
+        }
+        setQuotes(ticked);
       }
           } catch (error) {
         const mockQuotes: Record<string, QuoteTick> = {};
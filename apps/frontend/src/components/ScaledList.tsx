@@ -0,0 +1,105 @@
+"use client";
+
+import type React from "react";
+
+import { useEffect, useImperativeHandle, useRef, useState } from "react";
+
+// Browsers cap element heights (Firefox near 17.9M px), so a list taller
+// than this scrolls a shorter spacer and maps its scroll offset onto the rows
+const MAX_SCROLL_HEIGHT = 10_000_000;
+
+export interface ScaledListHandle {
+  // Scrolls the least distance that brings the item into view
+  scrollToItem: (index: number) => void;
+}
+
+interface ScaledListProps<D> {
+  height: number;
+  itemCount: number;
+  itemSize: number;
+  itemData: D;
+  overscanCount: number;
+  outerRef: React.RefObject<HTMLDivElement | null>;
+  // Called when the rendered range changes, like react-window's
+  onItemsRendered?: (range: { overscanStartIndex: number; overscanStopIndex: number }) => void;
+  children: React.ComponentType<{ index: number; style: React.CSSProperties; data: D }>;
+  ref?: React.Ref<ScaledListHandle>;
+}
+
+// A FixedSizeList (react-window) for any number of rows: the scrollbar always
+// spans the whole list, even past the browser's height limit. Below the limit
+// it scrolls exactly like FixedSizeList.
+export function ScaledList<D>({
+  height,
+  itemCount,
+  itemSize,
+  itemData,
+  overscanCount,
+  outerRef,
+  onItemsRendered,
+  children: Row,
+  ref,
+}: ScaledListProps<D>) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const renderedRef = useRef("");
+
+  const contentHeight = itemCount * itemSize;
+  const spacerHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  const maxScroll = Math.max(spacerHeight - height, 0);
+  // Content pixels per scrollbar pixel; 1 unless the list is past the limit
+  const ratio = maxScroll > 0 ? Math.max(contentHeight - height, 0) / maxScroll : 1;
+  // The browser clamps scrollTop when the list shrinks; the event may lag
+  const scrolled = Math.min(scrollTop, maxScroll);
+  const offset = scrolled * ratio;
+
+  const start = Math.max(Math.floor(offset / itemSize) - overscanCount, 0);
+  const stop = Math.min(Math.ceil((offset + height) / itemSize) + overscanCount, itemCount) - 1;
+
+  useEffect(() => {
+    const range = `${start}:${stop}`;
+    if (stop < start || renderedRef.current === range) return;
+    renderedRef.current = range;
+    onItemsRendered?.({ overscanStartIndex: start, overscanStopIndex: stop });
+  });
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToItem(index) {
+        const top = index * itemSize;
+        let target: number;
+        if (top < offset) target = top;
+        else if (top + itemSize > offset + height) target = top + itemSize - height;
+        else return;
+        if (outerRef.current) outerRef.current.scrollTop = target / ratio;
+      },
+    }),
+    [itemSize, offset, height, ratio, outerRef]
+  );
+
+  const rows: React.ReactNode[] = [];
+  for (let index = start; index <= stop; index++) {
+    rows.push(
+      <Row
+        key={index}
+        index={index}
+        data={itemData}
+        // Rows sit where the scaled offset puts them relative to the viewport
+        style={{ position: "absolute", left: 0, top: scrolled + index * itemSize - offset, height: itemSize }}
+      />
+    );
+  }
+
+  return (
+    <div
+      ref={outerRef}
+      className="relative overflow-auto"
+      style={{ height, width: "100%", willChange: "transform" }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative w-full" style={{ height: spacerHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+}
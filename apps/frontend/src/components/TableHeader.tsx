@@ -0,0 +1,218 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { ChevronUp, ChevronDown } from "lucide-react";
+import type { SortDirParam } from "shared";
+import { CELL_FOCUS, SELECT_COLUMN_WIDTH, STICKY_START, pinnedStyle, type TableColumn } from "./VirtualizedTable";
+import { gridCellProps } from "../lib/gridNavigation";
+
+// One applied sort key, as the list endpoints take it
+export type SortTerm<S extends string> = { by: S; dir: SortDirParam };
+
+interface TableHeaderProps<T, S extends string> {
+  columns: TableColumn<T, S>[];
+  width: number;
+  // Applied sort keys in priority order; empty leaves the API default
+  sort: SortTerm<S>[];
+  onSort: (column: S, additive: boolean) => void;
+  // Whether shift-click adds secondary sort keys
+  multiSort?: boolean;
+  // Scroller the rows keep level with (see VirtualizedTable's `headerRef`)
+  scrollRef?: React.Ref<HTMLDivElement>;
+  // Enables the drag handle on each column's right edge
+  onResize?: (column: string, width: number) => void;
+  // Enables dragging a label onto another column to move it there
+  onMove?: (column: string, target: string) => void;
+  // Checkbox heading the selection column (see VirtualizedTable's `selection`)
+  selectAll?: { checked: boolean; indeterminate: boolean; onChange: () => void };
+  // Column of the keyboard-active header cell, when the header row has it
+  activeCol?: number;
+}
+
+// Drag handle on a column's right edge; reports widths while the pointer moves
+function ResizeHandle({ width, onResize }: { width: number; onResize: (width: number) => void }) {
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const startX = e.clientX;
+    const move = (ev: PointerEvent) => onResize(width + ev.clientX - startX);
+    const up = () => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", up);
+    };
+    window.addEventListener("pointermove", move);
+    window.addEventListener("pointerup", up);
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300 transition-colors"
+      onPointerDown={handlePointerDown}
+    />
+  );
+}
+
+// Arrow for the column's direction, plus its priority once several keys apply
+function SortButton<S extends string>({
+  sort,
+  column,
+  onSort,
+  multiSort,
+}: {
+  sort: SortTerm<S>[];
+  column: S;
+  onSort: (column: S, additive: boolean) => void;
+  multiSort: boolean;
+}) {
+  const priority = sort.findIndex((t) => t.by === column);
+  const term = sort[priority];
+  return (
+    <button
+      // Reached through the grid's header cell, not the tab order
+      tabIndex={-1}
+      className="h-4 min-w-4 p-0 hover:bg-gray-200 rounded transition-colors flex items-center justify-center select-none"
+      title={multiSort ? "Click to sort, shift-click to add as a secondary sort" : "Click to sort"}
+      onClick={(e) => onSort(column, multiSort && e.shiftKey)}
+    >
+      {term ? (
+        <>
+          {term.dir === "asc" ? (
+            <ChevronUp className="h-3 w-3" />
+          ) : (
+            <ChevronDown className="h-3 w-3" />
+          )}
+          {sort.length > 1 && (
+            <span className="text-[10px] leading-none text-gray-500">{priority + 1}</span>
+          )}
+        </>
+      ) : (
+        <div className="h-3 w-3" />
+      )}
+    </button>
+  );
+}
+
+// Column labels with a sort button on every column that has a sort key, and
+// resize/reorder affordances when the layout is adjustable
+export function TableHeader<T, S extends string>({
+  columns,
+  width,
+  sort,
+  onSort,
+  multiSort = false,
+  scrollRef,
+  onResize,
+  onMove,
+  selectAll,
+  activeCol,
+}: TableHeaderProps<T, S>) {
+  // Column whose label is being dragged, and the one it hovers
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const offsetCols = selectAll ? 1 : 0;
+  const cellProps = (col: number) => gridCellProps({ row: 0, col }, activeCol === col);
+
+  // Only the primary sort key is announced; ARIA allows one sorted column
+  const ariaSort = (column: TableColumn<T, S>) =>
+    column.sortKey && sort[0]?.by === column.sortKey
+      ? sort[0].dir === "asc"
+        ? "ascending"
+        : "descending"
+      : undefined;
+
+  return (
+    <div ref={scrollRef} role="rowgroup" className="overflow-hidden border-b border-gray-200">
+      <div role="row" aria-rowindex={1} className="flex bg-gray-50" style={{ width }}>
+        {selectAll && (
+          <div
+            role="columnheader"
+            {...cellProps(0)}
+            data-grid-select
+            className={`flex items-center justify-center border-r border-gray-200 bg-gray-50 ${CELL_FOCUS}`}
+            style={{ width: SELECT_COLUMN_WIDTH, minWidth: SELECT_COLUMN_WIDTH, ...STICKY_START }}
+          >
+            <input
+              type="checkbox"
+              aria-label="Select all rows shown"
+              className="cursor-pointer"
+              tabIndex={-1}
+              checked={selectAll.checked}
+              ref={(el) => {
+                if (el) el.indeterminate = selectAll.indeterminate;
+              }}
+              onChange={selectAll.onChange}
+            />
+          </div>
+        )}
+        {columns.map((column, i) => (
+          <div
+            key={column.key}
+            role="columnheader"
+            {...cellProps(i + offsetCols)}
+            aria-sort={ariaSort(column)}
+            className={`relative flex items-center gap-2 p-3 font-medium text-sm border-r border-gray-200 last:border-r-0 ${CELL_FOCUS} ${
+              dropTarget === column.key && dragging !== column.key ? "bg-blue-50" : "bg-gray-50"
+            }`}
+            style={{
+              width: column.width,
+              minWidth: column.width,
+              ...pinnedStyle(columns, i, selectAll ? SELECT_COLUMN_WIDTH : 0),
+            }}
+            onDragOver={
+              onMove &&
+              ((e) => {
+                if (!dragging) return;
+                e.preventDefault();
+                setDropTarget(column.key);
+              })
+            }
+            onDrop={
+              onMove &&
+              ((e) => {
+                e.preventDefault();
+                if (dragging) onMove(dragging, column.key);
+                endDrag();
+              })
+            }
+          >
+            <span
+              className={`truncate ${onMove ? "cursor-grab" : ""} ${dragging === column.key ? "opacity-50" : ""}`}
+              draggable={!!onMove}
+              onDragStart={
+                onMove &&
+                ((e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", column.key);
+                  setDragging(column.key);
+                })
+              }
+              onDragEnd={onMove && endDrag}
+            >
+              {column.label}
+            </span>
+            {column.sortKey && (
+              <SortButton
+                sort={sort}
+                column={column.sortKey}
+                onSort={onSort}
+                multiSort={multiSort}
+              />
+            )}
+            {onResize && (
+              <ResizeHandle width={column.width} onResize={(w) => onResize(column.key, w)} />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Trash2, X } from "lucide-react";
+import type { BulkResult, ExportFormat } from "shared";
+import {
+  UserSelection,
+  bulkDeleteUsers,
+  bulkExportUsers,
+  selectedCount,
+  selectionBody,
+} from "../lib/userSelection";
+
+interface UserBulkBarProps {
+  selection: UserSelection;
+  // Whether every row on screen is ticked, and how many users match in all
+  allShownSelected: boolean;
+  total: number;
+  // Current list order, for exports (`sort` param form)
+  sort: string;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  // After a bulk delete, so the list can reload
+  onDeleted: () => void;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson", "xlsx"];
+
+// How many results of each kind, e.g. "3 deleted, 2 have orders, 1 not found"
+function summarize(result: BulkResult): string {
+  const conflicts = result.results.filter((r) => r.status === "conflict").length;
+  const missing = result.results.filter((r) => r.status === "not_found").length;
+  return [
+    `${result.succeeded} deleted`,
+    conflicts > 0 && `${conflicts} skipped (have orders)`,
+    missing > 0 && `${missing} not found`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Selection count, the Gmail-style "select all matching" offer, and the
+// actions that apply to the selection
+export function UserBulkBar({
+  selection,
+  allShownSelected,
+  total,
+  sort,
+  onSelectAllMatching,
+  onClear,
+  onDeleted,
+}: UserBulkBarProps) {
+  const [cascade, setCascade] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<BulkResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const count = selectedCount(selection);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = () => {
+    const what = cascade ? `${count} users and all their orders` : `${count} users (users with orders are skipped)`;
+    if (!window.confirm(`Delete ${what}?`)) return;
+    run(async () => {
+      setResult(await bulkDeleteUsers({ ...selectionBody(selection), cascade }));
+      onDeleted();
+    });
+  };
+
+  const handleExport = (format: ExportFormat) =>
+    bulkExportUsers({ ...selectionBody(selection), format, ...(sort && { sort }) });
+
+  if (count === 0 && !result && !error) return null;
+
+  return (
+    <div className="mb-4 px-3 py-2 border border-blue-200 bg-blue-50 rounded-md text-sm space-y-2">
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-medium text-blue-900">
+            {selection.mode === "matching"
+              ? `All ${count} matching users selected`
+              : `${count} selected`}
+          </span>
+          {selection.mode === "ids" && allShownSelected && total > count && (
+            <button className="text-blue-700 underline hover:text-blue-900" onClick={onSelectAllMatching}>
+              Select all {total} matching users
+            </button>
+          )}
+          <button className="text-blue-700 underline hover:text-blue-900" onClick={onClear}>
+            Clear selection
+          </button>
+
+          <div className="ml-auto flex items-center gap-2">
+            <Download className="h-4 w-4 text-gray-500" />
+            {EXPORT_FORMATS.map((format) => (
+              <button
+                key={format}
+                className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                disabled={busy}
+                onClick={() => handleExport(format)}
+              >
+                {format.toUpperCase()}
+              </button>
+            ))}
+            <label className="flex items-center gap-1 ml-2 text-gray-700">
+              <input type="checkbox" checked={cascade} onChange={(e) => setCascade(e.target.checked)} />
+              incl. users with orders
+            </label>
+            <button
+              className="flex items-center gap-1 px-3 py-1 rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              disabled={busy}
+              onClick={handleDelete}
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(result || error) && (
+        <div className="flex items-start gap-2 text-gray-700">
+          <div className="flex-1">
+            {error && <p className="text-red-700">{error}</p>}
+            {result && (
+              <>
+                <p>{summarize(result)}</p>
+                {result.failed > 0 && (
+                  <ul className="mt-1 max-h-24 overflow-y-auto text-xs text-gray-500">
+                    {result.results
+                      .filter((r) => r.status !== "ok")
+                      .map((r) => (
+                        <li key={r.id}>{r.message ?? `User ${r.id}: ${r.status}`}</li>
+                      ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+          <button
+            className="p-1 text-gray-400 hover:text-gray-700"
+            aria-label="Dismiss"
+            onClick={() => {
+              setResult(null);
+              setError(null);
+            }}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { X } from "lucide-react";
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Tooltip } from "chart.js";
+import { Bar } from "react-chartjs-2";
+import type { MonthlySpend, Page, PageQuery, UserDetail, UserOrder } from "shared";
+import { toSearchParams } from "../lib/api";
+import { formatCurrency, formatDate } from "../lib/format";
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+interface UserDetailDrawerProps {
+  userId: number;
+  onClose: () => void;
+}
+
+const ORDERS_PAGE_SIZE = 10;
+
+// The API leaves out months without orders; the timeline shows them as zero
+function fillMonths(spend: MonthlySpend[]): MonthlySpend[] {
+  if (spend.length === 0) return [];
+  const byMonth = new Map(spend.map((m) => [m.month, m]));
+  const [year, month] = spend[0].month.split("-").map(Number);
+  const last = spend[spend.length - 1].month;
+  const filled: MonthlySpend[] = [];
+  for (let d = new Date(Date.UTC(year, month - 1)); ; d.setUTCMonth(d.getUTCMonth() + 1)) {
+    const key = d.toISOString().slice(0, 7);
+    filled.push(byMonth.get(key) ?? { month: key, orderCount: 0, total: 0 });
+    if (key === last) return filled;
+  }
+}
+
+async function fetchJson<T>(url: string, signal: AbortSignal): Promise<T> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="mt-1 font-medium text-gray-900">{value}</div>
+    </div>
+  );
+}
+
+function SpendTimeline({ spend }: { spend: MonthlySpend[] }) {
+  const months = useMemo(() => fillMonths(spend), [spend]);
+
+  const data = {
+    labels: months.map((m) => m.month),
+    datasets: [
+      {
+        label: "Spend ($)",
+        data: months.map((m) => m.total),
+        backgroundColor: "rgba(59, 130, 246, 0.8)",
+        borderRadius: 4,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context: { parsed: { y: number | null }; dataIndex: number }) =>
+            `${formatCurrency(context.parsed.y ?? 0)} over ${months[context.dataIndex].orderCount} orders`,
+        },
+      },
+    },
+    scales: {
+      y: { beginAtZero: true },
+      x: { ticks: { maxRotation: 0, autoSkip: true } },
+    },
+    animation: { duration: 300 },
+  };
+
+  return (
+    <div className="h-48">
+      <Bar data={data} options={options} />
+    </div>
+  );
+}
+
+// Side panel for one user: profile, lifetime figures, best-selling products,
+// monthly spend and a paged order history. Closes on Escape or a backdrop click;
+// give it a `key` of the user id so switching users starts from a clean state.
+export function UserDetailDrawer({ userId, onClose }: UserDetailDrawerProps) {
+  const [detail, setDetail] = useState<UserDetail | null>(null);
+  const [orders, setOrders] = useState<Page<UserOrder> | null>(null);
+  const [ordersPage, setOrdersPage] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchJson<UserDetail>(`${process.env.NEXT_PUBLIC_API_URL}/users/${userId}`, controller.signal)
+      .then(setDetail)
+      .catch((err) => {
+        if (err instanceof Error && err.name !== "AbortError") setError(err.message);
+      });
+    return () => controller.abort();
+  }, [userId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = toSearchParams<PageQuery>({ page: ordersPage, pageSize: ORDERS_PAGE_SIZE });
+    fetchJson<Page<UserOrder>>(
+      `${process.env.NEXT_PUBLIC_API_URL}/users/${userId}/orders?${params}`,
+      controller.signal
+    )
+      .then(setOrders)
+      .catch((err) => {
+        if (err instanceof Error && err.name !== "AbortError") setError(err.message);
+      });
+    return () => controller.abort();
+  }, [userId, ordersPage]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const orderPages = orders ? Math.max(1, Math.ceil(orders.total / ORDERS_PAGE_SIZE)) : 1;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/30 z-40" onClick={onClose} />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label="User details"
+        className="fixed inset-y-0 right-0 z-50 w-full max-w-xl bg-white shadow-xl overflow-y-auto"
+      >
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          {detail ? (
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{detail.name}</h2>
+              <div className="text-sm text-gray-500">{detail.email}</div>
+              <div className="text-xs text-gray-400 mt-1">
+                #{detail.id} · joined {formatDate(detail.createdAt)}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="h-5 w-40 bg-gray-200 rounded animate-pulse" />
+              <div className="h-4 w-56 bg-gray-200 rounded animate-pulse" />
+            </div>
+          )}
+          <button
+            className="p-1 text-gray-400 hover:text-gray-700"
+            aria-label="Close"
+            onClick={onClose}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="m-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            Error loading user: {error}
+          </div>
+        )}
+
+        {detail && (
+          <div className="p-6 space-y-6">
+            <div className="grid grid-cols-3 gap-3">
+              <Stat label="Orders" value={String(detail.orderCount)} />
+              <Stat label="Total spent" value={formatCurrency(detail.orderTotal)} />
+              <Stat label="Average order" value={formatCurrency(detail.averageOrder)} />
+              <Stat label="First order" value={detail.firstOrderAt ? formatDate(detail.firstOrderAt) : "—"} />
+              <Stat label="Last order" value={detail.lastOrderAt ? formatDate(detail.lastOrderAt) : "—"} />
+            </div>
+
+            <section>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Top products</h3>
+              {detail.topProducts.length === 0 ? (
+                <div className="text-sm text-gray-500">No orders yet</div>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {detail.topProducts.map((product) => (
+                    <li key={product.productId} className="flex items-center justify-between py-2">
+                      <span>{product.productName ?? `Product ${product.productId} (deleted)`}</span>
+                      <span className="text-gray-500">
+                        {product.orderCount} {product.orderCount === 1 ? "order" : "orders"} ·{" "}
+                        <span className="font-medium text-green-600">{formatCurrency(product.total)}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {detail.monthlySpend.length > 0 && (
+              <section>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Monthly spend</h3>
+                <SpendTimeline spend={detail.monthlySpend} />
+              </section>
+            )}
+          </div>
+        )}
+
+        <section className="px-6 pb-6">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Orders</h3>
+          {!orders ? (
+            <div className="h-24 bg-gray-100 rounded animate-pulse" />
+          ) : orders.total === 0 ? (
+            <div className="text-sm text-gray-500">No orders yet</div>
+          ) : (
+            <>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Date</th>
+                    <th className="py-2 font-medium">Product</th>
+                    <th className="py-2 font-medium text-right">List price</th>
+                    <th className="py-2 font-medium text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.items.map((order) => (
+                    <tr key={order.id} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-500">{formatDate(order.createdAt)}</td>
+                      <td className="py-2">{order.productName ?? `Product ${order.productId} (deleted)`}</td>
+                      <td className="py-2 text-right text-gray-500">
+                        {order.productPrice === null ? "—" : formatCurrency(order.productPrice)}
+                      </td>
+                      <td className="py-2 text-right font-medium text-green-600">{formatCurrency(order.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex items-center justify-between mt-3 text-sm">
+                <span className="text-gray-500">
+                  Page {ordersPage} of {orderPages} · {orders.total} orders
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={ordersPage === 1}
+                    onClick={() => setOrdersPage((p) => p - 1)}
+                  >
+                    Previous
+                  </button>
+                  <button
+                    className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={ordersPage >= orderPages}
+                    onClick={() => setOrdersPage((p) => p + 1)}
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </section>
+      </aside>
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, X } from "lucide-react";
+import type { FilterMatch, FilterOp, UserFilterClause, UserFilterField } from "shared";
+import { FILTER_FIELDS, FILTER_OP_LABELS } from "../lib/userFilters";
+
+interface UserFilterBuilderProps {
+  clauses: UserFilterClause[];
+  match: FilterMatch;
+  onApply: (clauses: UserFilterClause[], match: FilterMatch) => void;
+}
+
+// Rows being edited; values stay strings until applied
+interface DraftClause {
+  field: UserFilterField;
+  op: FilterOp;
+  value: string;
+}
+
+const toDrafts = (clauses: UserFilterClause[]): DraftClause[] =>
+  clauses.map(({ field, op, value }) => ({ field, op, value: String(value) }));
+
+function ValueInput({
+  clause,
+  onChange,
+}: {
+  clause: DraftClause;
+  onChange: (value: string) => void;
+}) {
+  const className =
+    "w-40 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+  switch (clause.field) {
+    case "createdAt":
+      return (
+        <input
+          type="date"
+          className={className}
+          // Full timestamps from a shared URL show as their date
+          value={clause.value.slice(0, 10)}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case "orderCount":
+    case "orderTotal":
+      return (
+        <input
+          type="number"
+          min={0}
+          step={clause.field === "orderTotal" ? 0.01 : 1}
+          className={className}
+          value={clause.value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case "emailDomain":
+      return (
+        <input
+          type="text"
+          placeholder="example.com"
+          className={className}
+          value={clause.value}
+          onChange={(e) => onChange(e.target.value.trim())}
+        />
+      );
+  }
+}
+
+// Edits a list of column filters; nothing is sent until Apply, and rows with
+// an empty value are dropped then
+export function UserFilterBuilder({ clauses, match, onApply }: UserFilterBuilderProps) {
+  const [drafts, setDrafts] = useState<DraftClause[]>(() => toDrafts(clauses));
+  const [draftMatch, setDraftMatch] = useState<FilterMatch>(match);
+
+  // Follow applied filters changed elsewhere (URL hydration, Clear)
+  useEffect(() => {
+    setDrafts(toDrafts(clauses));
+    setDraftMatch(match);
+  }, [clauses, match]);
+
+  const update = (index: number, changes: Partial<DraftClause>) =>
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+
+  const changeField = (index: number, field: UserFilterField) =>
+    update(index, { field, op: FILTER_FIELDS[field].ops[0], value: "" });
+
+  const addClause = () =>
+    setDrafts((prev) => [...prev, { field: "orderTotal", op: "gte", value: "" }]);
+
+  const removeClause = (index: number) =>
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+
+  const apply = () => onApply(drafts.filter((d) => d.value !== ""), draftMatch);
+
+  return (
+    <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50 text-sm">
+      <div className="flex items-center gap-2 mb-3">
+        <span className="text-gray-700">Match</span>
+        <select
+          className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          value={draftMatch}
+          onChange={(e) => setDraftMatch(e.target.value as FilterMatch)}
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span className="text-gray-700">of these conditions</span>
+      </div>
+
+      <div className="space-y-2">
+        {drafts.map((draft, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+              value={draft.field}
+              onChange={(e) => changeField(index, e.target.value as UserFilterField)}
+            >
+              {(Object.keys(FILTER_FIELDS) as UserFilterField[]).map((field) => (
+                <option key={field} value={field}>
+                  {FILTER_FIELDS[field].label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+              value={draft.op}
+              onChange={(e) => update(index, { op: e.target.value as FilterOp })}
+            >
+              {FILTER_FIELDS[draft.field].ops.map((op) => (
+                <option key={op} value={op}>
+                  {FILTER_OP_LABELS[op]}
+                </option>
+              ))}
+            </select>
+            <ValueInput clause={draft} onChange={(value) => update(index, { value })} />
+            <button
+              className="p-1 text-gray-400 hover:text-gray-700"
+              aria-label="Remove condition"
+              onClick={() => removeClause(index)}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        <button
+          className="flex items-center gap-1 px-2 py-1 text-blue-600 hover:text-blue-800"
+          onClick={addClause}
+        >
+          <Plus className="h-4 w-4" /> Add condition
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            className="px-3 py-1 border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50"
+            onClick={() => onApply([], "all")}
+          >
+            Clear
+          </button>
+          <button
+            className="px-3 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600"
+            onClick={apply}
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
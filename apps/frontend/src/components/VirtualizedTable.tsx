@@ -2,130 +2,473 @@
 
 import type React from "react";
 
-import { memo, useMemo } from "react";
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { FixedSizeList as List } from "react-window";
-import { User } from "./DataTable";
+import { type GridCell, gridCellProps } from "../lib/gridNavigation";
+import { ScaledList, type ScaledListHandle } from "./ScaledList";
 
-interface Column {
-  key: keyof User;
+// One column of a table over rows of type T. `S` is the API's sort key type.
+export interface TableColumn<T, S extends string = string> {
+  // Row field shown by default; also identifies the column
+  key: Extract<keyof T, string>;
   label: string;
   width: number;
-  sortable: boolean;
+  // Sort key sent to the API; the column is not sortable without one
+  sortKey?: S;
+  // Cell text; defaults to the field's value ("—" for null)
+  format?: (row: T) => string;
+  // Classes for the default cell text
+  className?: string;
+  // Full control over the cell content; wins over `format`
+  render?: (row: T) => React.ReactNode;
+  // Stays at the left edge while the table scrolls horizontally. Pinned
+  // columns must come before the others.
+  pinned?: boolean;
+  // Double-click edits the field's raw value (needs `onEdit` on the table)
+  editable?: boolean;
+  // Message for a value that can't be saved, or null when it's fine
+  validate?: (value: string) => string | null;
 }
 
-interface VirtualizedTableProps {
-  data: User[];
-  columns: Column[];
+// Shown as a marker on rows with a write in flight or a failed one
+export type RowEditStatus = { state: "saving" } | { state: "error"; message: string };
+
+// Leading checkbox column of selectable tables; always pinned
+export const SELECT_COLUMN_WIDTH = 44;
+
+// Sticky positioning for pinned columns: each one sits right of the pinned
+// columns before it (and of `offset`, e.g. the checkbox column)
+export function pinnedStyle<T>(
+  columns: TableColumn<T>[],
+  index: number,
+  offset = 0
+): React.CSSProperties | undefined {
+  if (!columns[index].pinned) return undefined;
+  const left = columns.slice(0, index).reduce((sum, col) => sum + col.width, offset);
+  return { position: "sticky", left, zIndex: 1 };
+}
+
+export const STICKY_START: React.CSSProperties = { position: "sticky", left: 0, zIndex: 1 };
+
+const ROW_HEIGHT = 60;
+const MAX_HEIGHT = 600;
+const END_THRESHOLD = 10;
+
+// Rows on screen at once; PageUp/PageDown move by this many
+export const VISIBLE_ROWS = MAX_HEIGHT / ROW_HEIGHT;
+
+// Focus ring for grid cells (the header's too)
+export const CELL_FOCUS = "outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500";
+
+// Checkbox state and toggling for selectable tables
+export interface RowSelection<T> {
+  isSelected: (row: T) => boolean;
+  // `range` is set for shift-clicks, which extend from the last toggled row
+  onToggle: (row: T, index: number, range: boolean) => void;
+}
+
+// Whole-list mode: the scrollbar spans all `count` rows of a list loaded
+// piecemeal, and rows `rowAt` can't supply yet show as placeholders
+export interface RowWindow<T> {
+  count: number;
+  rowAt: (index: number) => T | undefined;
+  // Rows rendered (overscan included), for loading what they need
+  onRangeRendered: (start: number, stop: number) => void;
+}
+
+interface VirtualizedTableProps<T> {
+  // Rows to show; unused when `rowWindow` is given
+  data: T[];
+  columns: TableColumn<T>[];
   loading: boolean;
+  // Called when the last rows scroll into view (infinite mode)
+  onEndReached?: () => void;
+  // Makes rows clickable (e.g. to open the detail drawer)
+  onRowClick?: (row: T) => void;
+  // Header scroller kept level with the rows when they scroll horizontally
+  headerRef?: React.RefObject<HTMLDivElement | null>;
+  // Called when an editor opens, e.g. to read the record's current version
+  onEditStart?: (row: T) => void;
+  // A changed, valid value from an editable cell
+  onEdit?: (row: T, column: Extract<keyof T, string>, value: string) => void;
+  rowStatus?: (row: T) => RowEditStatus | undefined;
+  // Adds a leading checkbox column
+  selection?: RowSelection<T>;
+  // Keyboard-active cell (see useGridNavigation); its row is scrolled into view
+  activeCell?: GridCell;
+  // Rows before `data[0]` in the whole list, for `aria-rowindex`
+  rowIndexOffset?: number;
+  rowWindow?: RowWindow<T>;
+}
+
+// Held by row object, so an editor closes once its row is replaced (reload,
+// saved edit) instead of moving to whatever row takes its index
+type EditingCell<T> = { row: T; key: string };
+
+interface RowData<T> {
+  rowAt: (index: number) => T | undefined;
+  columns: TableColumn<T>[];
+  width: number;
+  onRowClick?: (row: T) => void;
+  editing: EditingCell<T> | null;
+  startEdit: (row: T, column: TableColumn<T>) => void;
+  stopEdit: () => void;
+  onEdit?: (row: T, column: Extract<keyof T, string>, value: string) => void;
+  rowStatus?: (row: T) => RowEditStatus | undefined;
+  selection?: RowSelection<T>;
+  activeCell?: GridCell;
+  rowIndexOffset: number;
 }
 
-interface RowProps {
+interface RowProps<T> {
   index: number;
   style: React.CSSProperties;
-  data: {
-    items: User[];
-    columns: Column[];
+  data: RowData<T>;
+}
+
+function Cell<T>({ column, row }: { column: TableColumn<T>; row: T }) {
+  if (column.render) return <>{column.render(row)}</>;
+  const text = column.format ? column.format(row) : String(row[column.key] ?? "—");
+  return <span className={column.className}>{text}</span>;
+}
+
+// Text input over a cell; Enter or leaving the field saves, Escape cancels
+function CellEditor<T>({
+  column,
+  row,
+  onCommit,
+  onCancel,
+}: {
+  column: TableColumn<T>;
+  row: T;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}) {
+  const initial = String(row[column.key] ?? "");
+  const [value, setValue] = useState(initial);
+  // Enter closes the editor; its blur must not save a second time
+  const doneRef = useRef(false);
+  const error = column.validate?.(value) ?? null;
+
+  const finish = (save: boolean) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    if (save && value !== initial) onCommit(value);
+    else onCancel();
+  };
+
+  // Keyboard edits hand focus back to the cell so navigation carries on
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" && !error) finish(true);
+    else if (e.key === "Escape") finish(false);
+    else return;
+    e.currentTarget.closest<HTMLElement>("[data-grid-col]")?.focus();
   };
+
+  return (
+    <div className="w-full" onClick={(e) => e.stopPropagation()}>
+      <input
+        autoFocus
+        aria-label={column.label}
+        aria-invalid={!!error}
+        className={`w-full px-2 py-1 border rounded text-sm focus:outline-none focus:ring-2 ${
+          error ? "border-red-500 focus:ring-red-500" : "border-gray-300 focus:ring-blue-500"
+        }`}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        // An invalid value is dropped rather than left open off-screen
+        onBlur={() => finish(!error)}
+      />
+      {error && <p className="text-[10px] leading-tight text-red-600 truncate">{error}</p>}
+    </div>
+  );
 }
 
-// Memoized row component to prevent unnecessary re-renders
-const TableRow = memo<RowProps>(({ index, style, data }) => {
-  const user = data.items[index];
+// A single click on an editable cell waits this long to see whether it is the
+// start of a double-click before it counts as a row click
+const DOUBLE_CLICK_DELAY = 250;
+
+// Rows not loaded yet (whole-list mode) render as placeholders with the same
+// cells, so a focused cell stays focused when its row arrives
+function TableRowInner<T>({ index, style, data }: RowProps<T>) {
+  const row = data.rowAt(index);
   const isEven = index % 2 === 0;
+  const status = row === undefined ? undefined : data.rowStatus?.(row);
+  const selected = row !== undefined && (data.selection?.isSelected(row) ?? false);
+  const offset = data.selection ? SELECT_COLUMN_WIDTH : 0;
+  const offsetCols = data.selection ? 1 : 0;
+  const clickTimerRef = useRef<NodeJS.Timeout>(null);
+  // Grid row 0 is the header
+  const gridRow = index + 1;
+  const cellProps = (col: number) =>
+    gridCellProps({ row: gridRow, col }, data.activeCell?.row === gridRow && data.activeCell.col === col);
+
+  useEffect(() => () => {
+    if (clickTimerRef.current) clearTimeout(clickTimerRef.current);
+  }, []);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
+  const handleEditableClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (row === undefined || !data.onRowClick || e.detail > 1) return;
+    clickTimerRef.current = setTimeout(() => data.onRowClick!(row), DOUBLE_CLICK_DELAY);
   };
 
-  const formatDate = (dateString: string) => {
-    // Force a fixed timezone so SSR and client render identical output
-    return new Date(dateString).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      timeZone: "UTC",
-    });
+  const handleEditableDoubleClick = (column: TableColumn<T>) => {
+    if (clickTimerRef.current) clearTimeout(clickTimerRef.current);
+    if (row !== undefined) data.startEdit(row, column);
   };
 
   return (
     <div
-      style={style}
-      className={`flex border-b border-gray-200 hover:bg-gray-50 transition-colors ${
-        isEven ? "bg-white" : "bg-gray-25"
-      }`}
+      role="row"
+      aria-rowindex={data.rowIndexOffset + gridRow + 1}
+      style={{ ...style, width: data.width }}
+      className={`group flex border-b border-gray-200 hover:bg-gray-50 transition-colors ${
+        selected ? "bg-blue-50" : isEven ? "bg-white" : "bg-gray-25"
+      } ${row !== undefined && data.onRowClick ? "cursor-pointer" : ""}`}
+      title={status && (status.state === "saving" ? "Saving…" : `Not saved: ${status.message}`)}
+      aria-busy={row === undefined || status?.state === "saving"}
+      aria-selected={data.selection && row !== undefined ? selected : undefined}
+      onClick={row !== undefined && data.onRowClick ? () => data.onRowClick!(row) : undefined}
     >
-      {data.columns.map((column) => (
+      {data.selection && (
         <div
-          key={column.key}
-          className="flex items-center p-3 text-sm border-r border-gray-200 last:border-r-0 overflow-hidden"
-          style={{ width: column.width, minWidth: column.width }}
+          role="gridcell"
+          {...cellProps(0)}
+          data-grid-select
+          className={`flex items-center justify-center border-r border-gray-200 ${CELL_FOCUS} ${
+            selected ? "bg-blue-50" : "bg-white group-hover:bg-gray-50 transition-colors"
+          }`}
+          style={{ width: SELECT_COLUMN_WIDTH, minWidth: SELECT_COLUMN_WIDTH, ...STICKY_START }}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (row !== undefined) data.selection!.onToggle(row, index, e.shiftKey);
+          }}
         >
-          {column.key === "orderTotal" ? (
-            <span className="font-medium text-green-600">
-              {user[column.key]}
-            </span>
-          ) : column.key === "createdAt" ? (
-            <span className="text-gray-500">
-              {formatDate(user[column.key] as string)}
-            </span>
-          ) : column.key === "email" ? (
-            <span className="truncate" title={user[column.key] as string}>
-              {user[column.key]}
-            </span>
-          ) : (
-            <span>{user[column.key]}</span>
+          {row !== undefined && (
+            <input
+              type="checkbox"
+              aria-label="Select row"
+              className="cursor-pointer"
+              checked={selected}
+              // Toggling happens on the cell so shift-clicks see the key
+              readOnly
+              tabIndex={-1}
+            />
           )}
         </div>
-      ))}
+      )}
+      {data.columns.map((column, i) => {
+        const editable = row !== undefined && !!column.editable && !!data.onEdit;
+        const isEditing = row !== undefined && data.editing?.row === row && data.editing.key === column.key;
+        return (
+          <div
+            key={column.key}
+            role="gridcell"
+            {...cellProps(i + offsetCols)}
+            data-grid-editable={editable || undefined}
+            className={`relative flex items-center p-3 text-sm border-r border-gray-200 last:border-r-0 overflow-hidden ${CELL_FOCUS} ${
+              !column.pinned ? "" : selected ? "bg-blue-50" : "bg-white group-hover:bg-gray-50 transition-colors"
+            } ${editable && !isEditing ? "cursor-text" : ""}`}
+            style={{ width: column.width, minWidth: column.width, ...pinnedStyle(data.columns, i, offset) }}
+            title={editable && !isEditing ? "Double-click to edit" : undefined}
+            onClick={editable ? handleEditableClick : undefined}
+            onDoubleClick={editable && !isEditing ? () => handleEditableDoubleClick(column) : undefined}
+          >
+            {i === 0 && status && (
+              <span
+                className={`absolute left-0 inset-y-0 w-1 ${
+                  status.state === "saving" ? "bg-amber-400 animate-pulse" : "bg-red-500"
+                }`}
+              />
+            )}
+            {row === undefined ? (
+              <div className="h-4 bg-gray-200 rounded animate-pulse" style={{ width: column.width - 24 }} />
+            ) : isEditing ? (
+              <CellEditor
+                column={column}
+                row={row}
+                onCommit={(value) => {
+                  data.stopEdit();
+                  data.onEdit!(row, column.key, value);
+                }}
+                onCancel={data.stopEdit}
+              />
+            ) : (
+              <Cell column={column} row={row} />
+            )}
+          </div>
+        );
+      })}
     </div>
   );
-});
-
-TableRow.displayName = "TableRow";
-
-export const VirtualizedTable = memo<VirtualizedTableProps>(
-  ({ data, columns, loading }) => {
-    const itemData = useMemo(
-      () => ({
-        items: data,
-        columns,
-      }),
-      [data, columns]
-    );
-
-    const ROW_HEIGHT = 60;
-    const MAX_HEIGHT = 600;
-
-    // Calculate total width from all columns
-    const totalWidth = useMemo(
-      () => columns.reduce((sum, col) => sum + col.width, 0),
-      [columns]
-    );
-
-    return (
-      <div className="relative">
-        {loading && (
-          <div className="absolute inset-0 bg-white/50 z-10 flex items-center justify-center">
-            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+}
+
+// Memoized row component to prevent unnecessary re-renders
+const TableRow = memo(TableRowInner) as typeof TableRowInner;
+
+// Placeholder rows shown while the first page loads
+export function TableSkeleton<T>({ columns, width }: { columns: TableColumn<T>[]; width: number }) {
+  return (
+    <div className="p-8" style={{ width }} aria-hidden>
+      <div className="space-y-3">
+        {Array.from({ length: 10 }).map((_, i) => (
+          <div key={i} className="flex gap-4">
+            {columns.map((column) => (
+              <div
+                key={column.key}
+                className="h-4 bg-gray-200 rounded animate-pulse"
+                style={{ width: column.width - 24 }}
+              />
+            ))}
           </div>
-        )}
+        ))}
+      </div>
+    </div>
+  );
+}
 
-        <List
-          height={Math.min(data.length * ROW_HEIGHT, MAX_HEIGHT)}
-          width={totalWidth}
-          itemCount={data.length}
+function VirtualizedTableInner<T>({
+  data,
+  columns,
+  loading,
+  onEndReached,
+  onRowClick,
+  headerRef,
+  onEditStart,
+  onEdit,
+  rowStatus,
+  selection,
+  activeCell,
+  rowIndexOffset = 0,
+  rowWindow,
+}: VirtualizedTableProps<T>) {
+  const outerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<List<RowData<T>>>(null);
+  const scaledListRef = useRef<ScaledListHandle>(null);
+  const rowCount = rowWindow ? rowWindow.count : data.length;
+  // Whole-list mode scrolls through ScaledList, a different scroller element
+  const scaled = rowWindow !== undefined;
+  // At most one cell is edited at a time; rows only keep their draft while open
+  const [editing, setEditing] = useState<EditingCell<T> | null>(null);
+
+  const startEdit = useCallback(
+    (row: T, column: TableColumn<T>) => {
+      setEditing({ row, key: column.key });
+      onEditStart?.(row);
+    },
+    [onEditStart]
+  );
+
+  const stopEdit = useCallback(() => setEditing(null), []);
+
+  // Calculate total width from all columns
+  const totalWidth = useMemo(
+    () => columns.reduce((sum, col) => sum + col.width, selection ? SELECT_COLUMN_WIDTH : 0),
+    [columns, selection]
+  );
+
+  const rowAt = useMemo(() => rowWindow?.rowAt ?? ((index: number) => data[index]), [rowWindow, data]);
+
+  const itemData = useMemo<RowData<T>>(
+    () => ({
+      rowAt,
+      columns,
+      width: totalWidth,
+      onRowClick,
+      editing,
+      startEdit,
+      stopEdit,
+      onEdit,
+      rowStatus,
+      selection,
+      activeCell,
+      rowIndexOffset,
+    }),
+    [
+      rowAt,
+      columns,
+      totalWidth,
+      onRowClick,
+      editing,
+      startEdit,
+      stopEdit,
+      onEdit,
+      rowStatus,
+      selection,
+      activeCell,
+      rowIndexOffset,
+    ]
+  );
+
+  // Rendered rows are a slice, so the active one is scrolled in before it
+  // can take focus
+  const activeRow = activeCell ? activeCell.row - 1 : -1;
+  useEffect(() => {
+    if (activeRow < 0) return;
+    listRef.current?.scrollToItem(activeRow);
+    scaledListRef.current?.scrollToItem(activeRow);
+  }, [activeRow]);
+
+  // The list scrolls both ways (so pinned cells can stick inside it); the
+  // header follows its horizontal offset
+  useEffect(() => {
+    const outer = outerRef.current;
+    if (!outer || !headerRef) return;
+    const sync = () => {
+      if (headerRef.current) headerRef.current.scrollLeft = outer.scrollLeft;
+    };
+    sync();
+    outer.addEventListener("scroll", sync, { passive: true });
+    return () => outer.removeEventListener("scroll", sync);
+  }, [headerRef, scaled]);
+
+  return (
+    <div className="relative">
+      {loading && (
+        <div className="absolute inset-0 bg-white/50 z-10 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {rowWindow ? (
+        <ScaledList<RowData<T>>
+          ref={scaledListRef}
+          height={Math.min(rowCount * ROW_HEIGHT, MAX_HEIGHT)}
+          outerRef={outerRef}
+          itemCount={rowCount}
           itemSize={ROW_HEIGHT}
           itemData={itemData}
           overscanCount={5}
+          onItemsRendered={({ overscanStartIndex, overscanStopIndex }) =>
+            rowWindow.onRangeRendered(overscanStartIndex, overscanStopIndex)
+          }
+        >
+          {TableRow}
+        </ScaledList>
+      ) : (
+        <List<RowData<T>>
+          height={Math.min(rowCount * ROW_HEIGHT, MAX_HEIGHT)}
+          width="100%"
+          ref={listRef}
+          outerRef={outerRef}
+          itemCount={rowCount}
+          itemSize={ROW_HEIGHT}
+          itemData={itemData}
+          overscanCount={5}
+          onItemsRendered={({ visibleStopIndex }) => {
+            if (onEndReached && visibleStopIndex >= rowCount - END_THRESHOLD) {
+              onEndReached();
+            }
+          }}
         >
           {TableRow}
         </List>
-      </div>
-    );
-  }
-);
+      )}
+    </div>
+  );
+}
 
-VirtualizedTable.displayName = "VirtualizedTable";
+// Rows are virtualized, so only the visible slice is rendered
+export const VirtualizedTable = memo(VirtualizedTableInner) as typeof VirtualizedTableInner;
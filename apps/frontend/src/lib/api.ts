@@ -0,0 +1,20 @@
+import type { ApiErrorResponse, QueryParams } from "shared";
+
+// Build a query string from params typed against a route's shared schema.
+// Unset fields are left out so the server applies its defaults.
+export function toSearchParams<T>(query: QueryParams<T>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  return params;
+}
+
+// Text for a failed request: the API's error message and first detail, or
+// the bare status when the body isn't an API error
+export async function apiErrorMessage(response: Response): Promise<string> {
+  const body: ApiErrorResponse | null = await response.json().catch(() => null);
+  if (!body?.error) return `HTTP error! status: ${response.status}`;
+  const detail = body.error.details?.[0]?.message;
+  return `${body.error.message}${detail ? ` (${detail})` : ""}`;
+}
@@ -0,0 +1,116 @@
+import type { TableColumn } from "../components/VirtualizedTable";
+
+// User-adjustable column layout: every column in display order with its width
+// and whether it is hidden or pinned to the left. Pinned columns always render
+// first, in their layout order.
+export type ColumnLayoutEntry = {
+  key: string;
+  width: number;
+  hidden: boolean;
+  pinned: boolean;
+};
+export type ColumnLayout = ColumnLayoutEntry[];
+
+export const MIN_COLUMN_WIDTH = 60;
+export const MAX_COLUMN_WIDTH = 800;
+
+const clampWidth = (width: number) =>
+  Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width)));
+
+export function defaultLayout<T>(columns: TableColumn<T>[]): ColumnLayout {
+  return columns.map((column) => ({
+    key: column.key,
+    width: column.width,
+    hidden: false,
+    pinned: !!column.pinned,
+  }));
+}
+
+// Visible columns in render order, with the layout's widths and pins
+export function applyLayout<T, S extends string>(
+  columns: TableColumn<T, S>[],
+  layout: ColumnLayout
+): TableColumn<T, S>[] {
+  const byKey = new Map(columns.map((column) => [column.key as string, column]));
+  const visible = layout.flatMap((entry) => {
+    const column = byKey.get(entry.key);
+    return column && !entry.hidden ? [{ ...column, width: entry.width, pinned: entry.pinned }] : [];
+  });
+  return [...visible.filter((c) => c.pinned), ...visible.filter((c) => !c.pinned)];
+}
+
+// Compact text form for the URL and localStorage: comma separated
+// `key:width` entries in display order, `-` in front of hidden columns and
+// `:pin` after pinned ones, e.g. "id:80:pin,name:220:pin,-email:250,orderTotal:180"
+export function formatLayout(layout: ColumnLayout): string {
+  return layout
+    .map(({ key, width, hidden, pinned }) => `${hidden ? "-" : ""}${key}:${width}${pinned ? ":pin" : ""}`)
+    .join(",");
+}
+
+// Unknown keys and repeats are skipped; columns the text leaves out keep their
+// defaults after the listed ones, so layouts survive columns being added
+export function parseLayout<T>(raw: string, columns: TableColumn<T>[]): ColumnLayout {
+  const defaults = defaultLayout(columns);
+  const layout: ColumnLayout = [];
+  for (const part of raw.split(",")) {
+    const [name = "", width, flag] = part.trim().split(":");
+    const hidden = name.startsWith("-");
+    const key = hidden ? name.slice(1) : name;
+    const base = defaults.find((entry) => entry.key === key);
+    if (!base || layout.some((entry) => entry.key === key)) continue;
+    const parsedWidth = Number(width);
+    layout.push({
+      key,
+      width: Number.isFinite(parsedWidth) && width ? clampWidth(parsedWidth) : base.width,
+      hidden,
+      pinned: flag === "pin",
+    });
+  }
+  const missing = defaults.filter((entry) => !layout.some((e) => e.key === entry.key));
+  return ensureVisible([...layout, ...missing]);
+}
+
+// A layout with every column hidden would leave nothing to click on
+function ensureVisible(layout: ColumnLayout): ColumnLayout {
+  if (layout.length === 0 || layout.some((entry) => !entry.hidden)) return layout;
+  return layout.map((entry, i) => (i === 0 ? { ...entry, hidden: false } : entry));
+}
+
+export function resizeColumn(layout: ColumnLayout, key: string, width: number): ColumnLayout {
+  return layout.map((entry) => (entry.key === key ? { ...entry, width: clampWidth(width) } : entry));
+}
+
+// Puts `key` where `target` is, shifting the columns in between
+export function moveColumn(layout: ColumnLayout, key: string, target: string): ColumnLayout {
+  const from = layout.findIndex((entry) => entry.key === key);
+  const to = layout.findIndex((entry) => entry.key === target);
+  if (from === -1 || to === -1 || from === to) return layout;
+  const next = layout.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export function toggleColumn(layout: ColumnLayout, key: string, field: "hidden" | "pinned"): ColumnLayout {
+  return ensureVisible(layout.map((entry) => (entry.key === key ? { ...entry, [field]: !entry[field] } : entry)));
+}
+
+export function loadLayout<T>(storageKey: string, columns: TableColumn<T>[]): ColumnLayout | null {
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    return raw ? parseLayout(raw, columns) : null;
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies)
+    return null;
+  }
+}
+
+export function saveLayout(storageKey: string, layout: ColumnLayout | null) {
+  try {
+    if (layout) window.localStorage.setItem(storageKey, formatLayout(layout));
+    else window.localStorage.removeItem(storageKey);
+  } catch {
+    // Not persisting is fine; the URL still carries the layout
+  }
+}
@@ -0,0 +1,14 @@
+// Display formatters shared by the tables and the user drawer
+
+const currency = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" });
+
+export const formatCurrency = (amount: number) => currency.format(amount);
+
+// Fixed timezone so SSR and client render identical output
+export const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
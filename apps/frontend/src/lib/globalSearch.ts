@@ -0,0 +1,34 @@
+import type {
+  GlobalSearchQuery,
+  GlobalSearchResult,
+  QueryParams,
+  SearchResult,
+  SymbolSearchHit,
+  UserSearchHit,
+} from "shared";
+import { apiErrorMessage, toSearchParams } from "./api";
+
+// A picked command palette result; the page decides where it leads
+export type SearchTarget =
+  | { kind: "user"; hit: UserSearchHit }
+  | { kind: "node"; hit: SearchResult }
+  | { kind: "symbol"; hit: SymbolSearchHit };
+
+export async function searchAll(
+  query: QueryParams<GlobalSearchQuery>,
+  signal?: AbortSignal
+): Promise<GlobalSearchResult> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/search/all?${toSearchParams(query)}`, { signal });
+  if (!response.ok) throw new Error(await apiErrorMessage(response));
+  return response.json();
+}
+
+// Every result in display order (users, nodes, symbols), which is the order
+// the arrow keys move through
+export function searchTargets(result: GlobalSearchResult): SearchTarget[] {
+  return [
+    ...result.users.items.map((hit): SearchTarget => ({ kind: "user", hit })),
+    ...result.nodes.items.map((hit): SearchTarget => ({ kind: "node", hit })),
+    ...result.symbols.items.map((hit): SearchTarget => ({ kind: "symbol", hit })),
+  ];
+}
@@ -0,0 +1,150 @@
+import type React from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// WAI-ARIA grid keyboard support over a header row plus body rows, with a
+// roving tabindex: only the active cell is tabbable and arrow keys move it.
+// Cells are found in the DOM through their data attributes, so rows the
+// virtualized list hasn't rendered yet are focused once they appear.
+
+// Row 0 is the header row and body rows count from 1; columns count every
+// rendered cell (checkbox column included) from 0
+export type GridCell = { row: number; col: number };
+
+// Attributes for each cell; `active` makes it the grid's tab stop
+export function gridCellProps(cell: GridCell, active: boolean) {
+  return {
+    "data-grid-row": cell.row,
+    "data-grid-col": cell.col,
+    "aria-colindex": cell.col + 1,
+    tabIndex: active ? 0 : -1,
+  };
+}
+
+interface GridNavigationOptions {
+  // Body rows currently loaded
+  rowCount: number;
+  colCount: number;
+  // Rows PageUp/PageDown move by (about one screenful)
+  pageRows: number;
+}
+
+const findCell = (grid: HTMLElement | null, { row, col }: GridCell) =>
+  grid?.querySelector<HTMLElement>(`[data-grid-row="${row}"][data-grid-col="${col}"]`) ?? null;
+
+// Clicks go to the cell's own controls, so keyboard and mouse share handlers
+function click(el: Element | null, init: MouseEventInit = {}, type = "click") {
+  el?.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, ...init }));
+}
+
+// How many frames to wait for a scrolled-to row to render
+const FOCUS_ATTEMPTS = 10;
+
+export function useGridNavigation({ rowCount, colCount, pageRows }: GridNavigationOptions) {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<GridCell>({ row: 0, col: 0 });
+  // Set by key presses; clicks already put focus where it belongs
+  const focusPendingRef = useRef(false);
+
+  // Rows and columns come and go (new page, hidden column)
+  const row = Math.min(active.row, rowCount);
+  const col = Math.min(active.col, Math.max(colCount - 1, 0));
+  const activeCell = useMemo(() => ({ row, col }), [row, col]);
+
+  useEffect(() => {
+    if (!focusPendingRef.current) return;
+    let frame = 0;
+    let attempts = 0;
+    const focus = () => {
+      const cell = findCell(gridRef.current, { row, col });
+      if (cell) {
+        focusPendingRef.current = false;
+        cell.focus();
+      } else if (attempts++ < FOCUS_ATTEMPTS) {
+        frame = requestAnimationFrame(focus);
+      }
+    };
+    focus();
+    return () => cancelAnimationFrame(frame);
+  }, [row, col]);
+
+  const onKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLElement>) => {
+      const target = e.target as HTMLElement;
+      // Keys typed into a cell editor are its own
+      if (target instanceof HTMLInputElement && target.type !== "checkbox") return;
+      // Focus can also sit on a control inside the cell after a click
+      const cell = target.closest<HTMLElement>("[data-grid-col]");
+      if (!cell) return;
+
+      let next: GridCell;
+      switch (e.key) {
+        case "ArrowUp":
+          next = { row: row - 1, col };
+          break;
+        case "ArrowDown":
+          next = { row: row + 1, col };
+          break;
+        case "ArrowLeft":
+          next = { row, col: col - 1 };
+          break;
+        case "ArrowRight":
+          next = { row, col: col + 1 };
+          break;
+        case "PageUp":
+          // The header row is only reached with arrows or Ctrl+Home
+          next = { row: Math.min(row, Math.max(row - pageRows, 1)), col };
+          break;
+        case "PageDown":
+          next = { row: row + pageRows, col };
+          break;
+        case "Home":
+          next = e.ctrlKey ? { row: 0, col: 0 } : { row, col: 0 };
+          break;
+        case "End":
+          next = e.ctrlKey ? { row: rowCount, col: colCount - 1 } : { row, col: colCount - 1 };
+          break;
+        case "Enter":
+          e.preventDefault();
+          if (row === 0) {
+            // Sort button or select-all checkbox; shift adds a sort key
+            click(cell.querySelector("button, input"), { shiftKey: e.shiftKey });
+          } else if (cell.hasAttribute("data-grid-editable")) {
+            click(cell, {}, "dblclick");
+          } else {
+            click(cell);
+          }
+          return;
+        case " ": {
+          // Space ticks the row's checkbox, shift extending the range
+          const select = cell.parentElement?.querySelector("[data-grid-select]") ?? null;
+          if (!select) return;
+          e.preventDefault();
+          click(row === 0 ? select.querySelector("input") : select, { shiftKey: e.shiftKey });
+          return;
+        }
+        default:
+          return;
+      }
+
+      e.preventDefault();
+      focusPendingRef.current = true;
+      setActive({
+        row: Math.max(0, Math.min(next.row, rowCount)),
+        col: Math.max(0, Math.min(next.col, colCount - 1)),
+      });
+    },
+    [row, col, rowCount, colCount, pageRows]
+  );
+
+  // Clicking or tabbing into a cell makes it the active one
+  const onFocus = useCallback((e: React.FocusEvent<HTMLElement>) => {
+    const cell = (e.target as HTMLElement).closest<HTMLElement>("[data-grid-col]");
+    if (!cell) return;
+    setActive({ row: Number(cell.dataset.gridRow), col: Number(cell.dataset.gridCol) });
+  }, []);
+
+  return {
+    active: activeCell,
+    gridProps: { ref: gridRef, role: "grid", onKeyDown, onFocus },
+  };
+}
@@ -0,0 +1,111 @@
+import type { Node, NodeChildrenPage, NodeChildrenQuery, NodePatchBody, QueryParams } from "shared";
+import { apiErrorMessage, toSearchParams } from "./api";
+
+// A node as the org chart holds it: its children once fetched, and its depth
+// for indenting. Children load a page at a time; `nextCursor` is where the
+// next page starts (null once all are in) and `childCount` how many there
+// are in all.
+export interface TreeNode extends Node {
+  children?: TreeNode[];
+  nextCursor?: string | null;
+  childCount?: number;
+  loading?: boolean;
+  level: number;
+}
+
+// One reparenting, enough to replay it either way for undo/redo
+export type NodeMove = { nodeId: string; from: string | null; to: string | null };
+
+// Whether `nodeId` is `ancestorId` or below it, as far as the loaded nodes tell
+export function isWithin(nodesMap: Map<string, TreeNode>, nodeId: string, ancestorId: string): boolean {
+  for (let id: string | null = nodeId; id !== null; id = nodesMap.get(id)?.parentId ?? null) {
+    if (id === ancestorId) return true;
+  }
+  return false;
+}
+
+// Where a node may be dropped (`to` null is the top level): anywhere but
+// inside its own subtree or where it already is. The server checks cycles
+// again, against the whole tree.
+export function canMoveTo(nodesMap: Map<string, TreeNode>, nodeId: string, to: string | null): boolean {
+  const node = nodesMap.get(nodeId);
+  if (!node || node.parentId === to) return false;
+  return to === null || !isWithin(nodesMap, to, nodeId);
+}
+
+export async function fetchChildPage(
+  parentId: string,
+  query: QueryParams<NodeChildrenQuery>,
+  signal?: AbortSignal
+): Promise<NodeChildrenPage> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL}/nodes/${encodeURIComponent(parentId)}/children?${toSearchParams(query)}`,
+    { signal }
+  );
+  if (!response.ok) throw new Error(await apiErrorMessage(response));
+  return response.json();
+}
+
+export async function moveNodeTo(id: string, parentId: string | null): Promise<Node> {
+  const body: NodePatchBody = { parentId };
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/nodes/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw new Error(await apiErrorMessage(response));
+  return response.json();
+}
+
+// The loaded nodes after the server moved `moved`: it leaves its old parent's
+// children and, as the server lists it last, joins the end of the new
+// parent's once they are all loaded (otherwise a later expand or page fetches
+// it in place), both parents' hasChildren and counts follow, and it and its
+// loaded descendants are re-levelled. Nothing is refetched.
+export function applyMove(nodesMap: Map<string, TreeNode>, moved: Node): Map<string, TreeNode> {
+  const current = nodesMap.get(moved.id);
+  if (!current) return nodesMap;
+  const next = new Map(nodesMap);
+
+  const oldParent = current.parentId === null ? undefined : next.get(current.parentId);
+  if (oldParent) {
+    const children = oldParent.children?.filter((child) => child.id !== moved.id);
+    const childCount = oldParent.childCount === undefined ? undefined : oldParent.childCount - 1;
+    next.set(oldParent.id, {
+      ...oldParent,
+      children,
+      childCount,
+      hasChildren: childCount === undefined ? oldParent.hasChildren : childCount > 0,
+    });
+  }
+
+  const newParent = moved.parentId === null ? undefined : next.get(moved.parentId);
+  const node: TreeNode = { ...current, ...moved, level: newParent ? newParent.level + 1 : 0 };
+  next.set(node.id, node);
+  if (newParent) {
+    next.set(newParent.id, {
+      ...newParent,
+      children: newParent.children && newParent.nextCursor === null ? [...newParent.children, node] : newParent.children,
+      childCount: newParent.childCount === undefined ? undefined : newParent.childCount + 1,
+      hasChildren: true,
+    });
+  }
+
+  const relevel = (parent: TreeNode) => {
+    for (const { id } of parent.children ?? []) {
+      const child = next.get(id);
+      if (!child) continue;
+      const updated = { ...child, level: parent.level + 1 };
+      next.set(id, updated);
+      relevel(updated);
+    }
+  };
+  relevel(node);
+  return next;
+}
+
+// Root ids after `moved` was moved: it leaves the top level or joins its end
+export function applyRootMove(rootIds: string[], moved: Node): string[] {
+  const rest = rootIds.filter((id) => id !== moved.id);
+  return moved.parentId === null ? [...rest, moved.id] : rest;
+}
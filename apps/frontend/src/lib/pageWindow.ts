@@ -0,0 +1,51 @@
+// Rows of a list too long to hold at once, loaded a page at a time around
+// the viewport. Rows of pages not loaded (or evicted) read as undefined.
+export type PageWindow<T> = {
+  pageSize: number;
+  // Rows by 1-based page number, as the API numbers pages
+  pages: ReadonlyMap<number, T[]>;
+};
+
+export const emptyWindow = <T>(pageSize: number): PageWindow<T> => ({ pageSize, pages: new Map() });
+
+const pageOf = (win: PageWindow<unknown>, index: number) => Math.floor(index / win.pageSize) + 1;
+
+export function rowAt<T>(win: PageWindow<T>, index: number): T | undefined {
+  return win.pages.get(pageOf(win, index))?.[index % win.pageSize];
+}
+
+// Loaded rows in list order
+export function loadedRows<T>(win: PageWindow<T>): T[] {
+  return [...win.pages.keys()].sort((a, b) => a - b).flatMap((page) => win.pages.get(page)!);
+}
+
+// Pages holding rows `start`..`stop` (inclusive) that aren't loaded
+export function missingPages(win: PageWindow<unknown>, start: number, stop: number): number[] {
+  const missing: number[] = [];
+  for (let page = pageOf(win, start); page <= pageOf(win, stop); page++) {
+    if (!win.pages.has(page)) missing.push(page);
+  }
+  return missing;
+}
+
+// Adds a page, then drops the pages farthest from row `center` so at most
+// `maxPages` stay loaded
+export function addPage<T>(
+  win: PageWindow<T>,
+  page: number,
+  rows: T[],
+  center: number,
+  maxPages: number
+): PageWindow<T> {
+  const pages = new Map(win.pages).set(page, rows);
+  const centerPage = pageOf(win, center);
+  const byDistance = [...pages.keys()].sort((a, b) => Math.abs(b - centerPage) - Math.abs(a - centerPage));
+  for (const far of byDistance.slice(0, Math.max(pages.size - maxPages, 0))) pages.delete(far);
+  return { ...win, pages };
+}
+
+// Applies `update` to every loaded row (e.g. a saved edit)
+export function mapRows<T>(win: PageWindow<T>, update: (row: T) => T): PageWindow<T> {
+  const pages = new Map([...win.pages].map(([page, rows]) => [page, rows.map(update)]));
+  return { ...win, pages };
+}
@@ -0,0 +1,79 @@
+// Responses by key. A fresh entry is served as is; a stale one is still
+// served (stale-while-revalidate) while the caller refetches it. Concurrent
+// requests for one key share a single fetch.
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+export interface CacheHit<T> {
+  data: T;
+  stale: boolean;
+}
+
+interface QueryCacheOptions {
+  // How long a response counts as fresh, in milliseconds
+  staleTime: number;
+  // Least recently used entries are dropped beyond this many
+  maxEntries: number;
+}
+
+export class QueryCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly inflight = new Map<string, Promise<T>>();
+  // Bumped by invalidate(), so responses to requests sent before it don't go
+  // back into the cache
+  private generation = 0;
+
+  constructor(private readonly options: QueryCacheOptions) {}
+
+  peek(key: string): CacheHit<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Re-insert to mark it recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { data: entry.data, stale: Date.now() - entry.fetchedAt >= this.options.staleTime };
+  }
+
+  // Loads `key`, joining a request already in flight for it
+  fetch(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const generation = this.generation;
+    const request = load()
+      .then((data) => {
+        if (generation === this.generation) this.set(key, data);
+        return data;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === request) this.inflight.delete(key);
+      });
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  // Loads `key` in the background unless it is fresh or already on its way
+  prefetch(key: string, load: () => Promise<T>): void {
+    if (this.inflight.has(key) || this.peek(key)?.stale === false) return;
+    this.fetch(key, load).catch(() => {});
+  }
+
+  // After a mutation: every entry turns stale (still shown until refetched)
+  // and requests in flight no longer fill the cache
+  invalidate(): void {
+    this.generation++;
+    this.inflight.clear();
+    for (const entry of this.entries.values()) entry.fetchedAt = 0;
+  }
+
+  private set(key: string, data: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, { data, fetchedAt: Date.now() });
+    while (this.entries.size > this.options.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
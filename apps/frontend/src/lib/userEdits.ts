@@ -0,0 +1,60 @@
+import type { UserPatchBody, UserRow } from "shared";
+import { apiErrorMessage } from "./api";
+import { invalidateUsers } from "./userPages";
+
+export type EditableUserField = keyof UserPatchBody;
+
+// A user as last read from the API, with the ETag to send back as If-Match
+export type VersionedUser = { user: UserRow; etag: string | null };
+
+// Failed write; `status` 409 means the email is taken, 412 that someone else
+// changed the user since its ETag was read
+export class SaveError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "SaveError";
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Same limits as the API's user body schema, checked before anything is sent
+export function validateUserField(field: EditableUserField, value: string): string | null {
+  switch (field) {
+    case "name":
+      if (!value.trim()) return "Name is required";
+      return value.trim().length > 200 ? "Name must be at most 200 characters" : null;
+    case "email":
+      if (!EMAIL_PATTERN.test(value)) return "Enter a valid email address";
+      return value.length > 320 ? "Email must be at most 320 characters" : null;
+  }
+}
+
+const toUserRow = ({ id, name, email, createdAt, orderCount, orderTotal }: UserRow): UserRow => ({
+  id,
+  name,
+  email,
+  createdAt,
+  orderCount,
+  orderTotal,
+});
+
+const saveError = async (response: Response) => new SaveError(response.status, await apiErrorMessage(response));
+
+// The detail endpoint is the one that issues user ETags
+export async function fetchUser(id: number): Promise<VersionedUser> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/${id}?top=1`);
+  if (!response.ok) throw await saveError(response);
+  return { user: toUserRow(await response.json()), etag: response.headers.get("ETag") };
+}
+
+export async function patchUser(id: number, changes: UserPatchBody, etag: string | null): Promise<VersionedUser> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", ...(etag && { "If-Match": etag }) },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw await saveError(response);
+  invalidateUsers();
+  return { user: toUserRow(await response.json()), etag: response.headers.get("ETag") };
+}
@@ -0,0 +1,38 @@
+import type { FilterOp, UserFilterClause, UserFilterField } from "shared";
+
+// Client side of the users `filter` param: comma separated field:op:value
+// clauses. The server validates; parsing here only skips clauses that cannot
+// be shown in the builder, so a hand-edited URL still renders.
+
+// Mirrors USER_FILTER_OPS in shared; the Record type flags a missing field
+export const FILTER_FIELDS: Record<UserFilterField, { label: string; ops: readonly FilterOp[] }> = {
+  createdAt: { label: "Created", ops: ["gte", "gt", "lte", "lt"] },
+  orderCount: { label: "Orders", ops: ["gte", "gt", "eq", "lte", "lt"] },
+  orderTotal: { label: "Total", ops: ["gte", "gt", "eq", "lte", "lt"] },
+  emailDomain: { label: "Email domain", ops: ["eq"] },
+};
+
+export const FILTER_OP_LABELS: Record<FilterOp, string> = {
+  eq: "=",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+export function formatUserFilter(clauses: UserFilterClause[]): string {
+  return clauses.map(({ field, op, value }) => `${field}:${op}:${value}`).join(",");
+}
+
+export function parseUserFilter(raw: string): UserFilterClause[] {
+  const clauses: UserFilterClause[] = [];
+  for (const part of raw.split(",")) {
+    const [field, op, ...rest] = part.trim().split(":");
+    const value = rest.join(":");
+    if (!Object.hasOwn(FILTER_FIELDS, field) || !value) continue;
+    const { ops } = FILTER_FIELDS[field as UserFilterField];
+    if (!ops.includes(op as FilterOp)) continue;
+    clauses.push({ field: field as UserFilterField, op: op as FilterOp, value });
+  }
+  return clauses;
+}
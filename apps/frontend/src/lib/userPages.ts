@@ -0,0 +1,41 @@
+import type { CursorPageResponse, Page, QueryParams, UserListRow, UsersQuery } from "shared";
+import { toSearchParams } from "./api";
+import { CacheHit, QueryCache } from "./queryCache";
+
+// Offset mode returns `page`; cursor mode returns `nextCursor`/`prevCursor`
+export type UsersPage = Page<UserListRow> | CursorPageResponse<UserListRow>;
+
+// Pages of the users list, keyed by their full query string (page or
+// cursor, size, search, filters, sort)
+const cache = new QueryCache<UsersPage>({ staleTime: 30_000, maxEntries: 50 });
+
+const pageKey = (query: QueryParams<UsersQuery>) => toSearchParams(query).toString();
+
+const load = (key: string) => async () => {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users?${key}`);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return (await response.json()) as UsersPage;
+};
+
+// The cached page for `query`, if any, and whether it should be refetched
+export function peekUsersPage(query: QueryParams<UsersQuery>): CacheHit<UsersPage> | undefined {
+  return cache.peek(pageKey(query));
+}
+
+export function fetchUsersPage(query: QueryParams<UsersQuery>): Promise<UsersPage> {
+  const key = pageKey(query);
+  return cache.fetch(key, load(key));
+}
+
+// Warms the cache for a page the user is likely to open next
+export function prefetchUsersPage(query: QueryParams<UsersQuery>): void {
+  const key = pageKey(query);
+  cache.prefetch(key, load(key));
+}
+
+// Called by every request that changes users, so no page is trusted after it
+export function invalidateUsers(): void {
+  cache.invalidate();
+}
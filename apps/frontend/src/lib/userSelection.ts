@@ -0,0 +1,88 @@
+import type { BulkResult, ExportFormat, UserBulkDeleteBody, UserBulkExportBody, UsersQuery } from "shared";
+import { apiErrorMessage } from "./api";
+import { invalidateUsers } from "./userPages";
+
+// The list query a "select all matching" selection stands for
+export type SelectionQuery = { search: string; filter: string; match: UsersQuery["match"] };
+
+// Checked users: picked one by one (any page), or every user matching a
+// query except the ones unticked since. The second kind never needs the
+// matching rows loaded; the server resolves it.
+export type UserSelection =
+  | { mode: "ids"; ids: ReadonlySet<number> }
+  | { mode: "matching"; query: SelectionQuery; total: number; exclude: ReadonlySet<number> };
+
+export const EMPTY_SELECTION: UserSelection = { mode: "ids", ids: new Set() };
+
+export function isSelected(selection: UserSelection, id: number): boolean {
+  return selection.mode === "ids" ? selection.ids.has(id) : !selection.exclude.has(id);
+}
+
+export function selectedCount(selection: UserSelection): number {
+  return selection.mode === "ids" ? selection.ids.size : selection.total - selection.exclude.size;
+}
+
+// Ticks or unticks `ids` (e.g. a shift-click range or the rows on screen)
+export function setSelected(selection: UserSelection, ids: number[], selected: boolean): UserSelection {
+  if (selection.mode === "ids") {
+    const next = new Set(selection.ids);
+    for (const id of ids) {
+      if (selected) next.add(id);
+      else next.delete(id);
+    }
+    return { ...selection, ids: next };
+  }
+  const exclude = new Set(selection.exclude);
+  for (const id of ids) {
+    if (selected) exclude.delete(id);
+    else exclude.add(id);
+  }
+  return { ...selection, exclude };
+}
+
+// The selection part of a bulk request body
+export function selectionBody(selection: UserSelection): Pick<UserBulkDeleteBody, "ids" | "matching" | "exclude"> {
+  return selection.mode === "ids"
+    ? { ids: [...selection.ids] }
+    : {
+        matching: {
+          search: selection.query.search,
+          ...(selection.query.filter && { filter: selection.query.filter }),
+          match: selection.query.match,
+        },
+        exclude: [...selection.exclude],
+      };
+}
+
+async function postJson(path: string, body: object): Promise<Response> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw new Error(await apiErrorMessage(response));
+  return response;
+}
+
+export async function bulkDeleteUsers(body: UserBulkDeleteBody): Promise<BulkResult> {
+  const response = await postJson("users/bulk-delete", body);
+  invalidateUsers();
+  return response.json();
+}
+
+// The file is posted for (a selection can list too many ids for a URL), so
+// it is downloaded by submitting a form rather than following a link; the
+// browser then streams it to disk. The endpoint takes the JSON in one field.
+export function bulkExportUsers(body: UserBulkExportBody & { format: ExportFormat }): void {
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = `${process.env.NEXT_PUBLIC_API_URL}/users/bulk-export`;
+  const field = document.createElement("input");
+  field.type = "hidden";
+  field.name = "body";
+  field.value = JSON.stringify(body);
+  form.append(field);
+  document.body.append(form);
+  form.submit();
+  form.remove();
+}
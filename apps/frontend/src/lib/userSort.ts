@@ -0,0 +1,45 @@
+import type { UserSortKey, UserSortTerm } from "shared";
+
+// Client side of the users `sort` param: comma separated key:dir terms in
+// priority order, e.g. "orderTotal:desc,name:asc"
+
+// Every key the API sorts by; the Record type flags any drift from the schema
+export const SORT_KEYS: Record<UserSortKey, true> = {
+  id: true,
+  name: true,
+  email: true,
+  orderTotal: true,
+  orderCount: true,
+  createdAt: true,
+};
+
+const isSortKey = (key: string): key is UserSortKey => Object.hasOwn(SORT_KEYS, key);
+
+export function formatSort(sort: UserSortTerm[]): string {
+  return sort.map(({ by, dir }) => `${by}:${dir}`).join(",");
+}
+
+// Unknown keys and repeats are skipped rather than rejected
+export function parseSort(raw: string): UserSortTerm[] {
+  const sort: UserSortTerm[] = [];
+  for (const part of raw.split(",")) {
+    const [by, dir = "asc"] = part.trim().split(":");
+    if (!isSortKey(by) || sort.some((t) => t.by === by)) continue;
+    sort.push({ by, dir: dir.toLowerCase() === "desc" ? "desc" : "asc" });
+  }
+  return sort;
+}
+
+// Plain click sorts by the column alone, flipping it if it already was the
+// only key. Shift-click adds it as the lowest-priority key, or cycles an
+// existing key asc → desc → removed.
+export function nextSort(sort: UserSortTerm[], by: UserSortKey, additive: boolean): UserSortTerm[] {
+  const existing = sort.find((t) => t.by === by);
+  if (!additive) {
+    const flip = sort.length === 1 && existing?.dir === "asc";
+    return [{ by, dir: flip ? "desc" : "asc" }];
+  }
+  if (!existing) return [...sort, { by, dir: "asc" }];
+  if (existing.dir === "asc") return sort.map((t) => (t.by === by ? { by, dir: "desc" } : t));
+  return sort.filter((t) => t.by !== by);
+}
@@ -0,0 +1,411 @@
+import { z } from "zod";
+
+// Request schemas for every backend route, grouped by the part of the request
+// they validate ({ params, query, body }). The backend parses with them; the
+// frontend builds its query strings from the inferred types.
+
+// Query values arrive as strings; an empty value counts as "not given"
+const blankToUndefined = (v: unknown) => (v === "" ? undefined : v);
+
+function queryInt(opts: { min: number; max?: number; fallback: number }) {
+  let n = z.coerce.number().int().min(opts.min);
+  if (opts.max !== undefined) n = n.max(opts.max);
+  return z.preprocess(blankToUndefined, n.default(opts.fallback));
+}
+
+// Comma separated list, e.g. "AAPL,MSFT"; blanks are dropped
+const csvList = z
+  .string()
+  .optional()
+  .transform((s) =>
+    (s ?? "")
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+  );
+
+const money = z
+  .number()
+  .nonnegative()
+  .refine((v) => Math.abs(v * 100 - Math.round(v * 100)) < 1e-6, {
+    message: "Must have at most 2 decimal places",
+  });
+
+const recordId = z.number().int().positive();
+
+const nonEmpty = (obj: object) => Object.keys(obj).length > 0;
+const nonEmptyMessage = { message: "At least one field is required" };
+
+// ---- Shared pieces ----
+
+// Query string a client sends for a route whose parsed query is T
+export type QueryParams<T> = { [K in keyof T]?: string | number };
+
+export const USER_SORT_KEYS = ["id", "name", "email", "createdAt", "orderCount", "orderTotal"] as const;
+export const userSortKeySchema = z.enum(USER_SORT_KEYS);
+export type UserSortKey = z.infer<typeof userSortKeySchema>;
+
+export const sortDirSchema = z.preprocess(
+  (v) => (typeof v === "string" ? v.toLowerCase() : v),
+  z.enum(["asc", "desc"])
+);
+export type SortDirParam = z.infer<typeof sortDirSchema>;
+
+// One key of a multi-column sort, e.g. `orderTotal:desc` in `sort=...`
+export type UserSortTerm = { by: UserSortKey; dir: SortDirParam };
+
+// Comma separated `key:dir` terms in priority order; the direction defaults
+// to asc. Rows that tie on every term are ordered by ascending id.
+const userSortSchema = z
+  .string()
+  .max(200)
+  .optional()
+  .transform((raw = "", ctx) => {
+    const terms: UserSortTerm[] = [];
+    for (const part of raw.split(",").map((p) => p.trim()).filter(Boolean)) {
+      const [by, dir = "asc"] = part.split(":");
+      const key = userSortKeySchema.safeParse(by);
+      const direction = sortDirSchema.safeParse(dir);
+      if (!key.success) {
+        ctx.addIssue({ code: "custom", message: `Unknown sort key "${by}"; expected one of ${USER_SORT_KEYS.join(", ")}` });
+      } else if (!direction.success) {
+        ctx.addIssue({ code: "custom", message: `Sort direction for ${by} must be asc or desc` });
+      } else if (terms.some((t) => t.by === key.data)) {
+        ctx.addIssue({ code: "custom", message: `Sort key ${by} is listed twice` });
+      } else {
+        terms.push({ by: key.data, dir: direction.data });
+      }
+    }
+    return terms;
+  })
+  .describe("Comma separated key:dir terms in priority order, e.g. orderTotal:desc,name:asc; overrides sortBy/sortDir");
+
+export const idParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+// `cursor` switches a list endpoint to keyset mode ("" = first page)
+export const pageQuerySchema = z.object({
+  page: queryInt({ min: 1, fallback: 1 }),
+  pageSize: queryInt({ min: 1, max: 200, fallback: 50 }),
+  cursor: z.string().optional(),
+});
+export type PageQuery = z.infer<typeof pageQuerySchema>;
+
+export const deleteQuerySchema = z.object({
+  cascade: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((v) => v === "true"),
+});
+
+// ---- Dev ----
+
+// mulberry32 seeds are 32-bit
+const seedParam = (fallback: number) => queryInt({ min: 0, max: 0xffff_ffff, fallback });
+
+// How the generated org tree branches; `breadth` and `depth` size each shape
+export const TREE_SHAPES = ["random", "balanced", "chain", "wide", "skewed"] as const;
+export type TreeShape = (typeof TREE_SHAPES)[number];
+
+// Upper bound on generated nodes, whatever the shape and `nodes` ask for
+export const MAX_SEED_NODES = 2_000_000;
+
+export const seedQuerySchema = z.object({
+  users: queryInt({ min: 0, max: 5_000_000, fallback: 1000 }),
+  orders: queryInt({ min: 0, max: 20_000_000, fallback: 10000 }),
+  products: queryInt({ min: 0, max: 1_000_000, fallback: 1000 }),
+  breadth: queryInt({ min: 1, max: 10_000, fallback: 20 }),
+  depth: queryInt({ min: 1, max: 1000, fallback: 10 }),
+  shape: z.preprocess(blankToUndefined, z.enum(TREE_SHAPES).default("random")),
+  nodes: z.preprocess(blankToUndefined, z.coerce.number().int().min(1).max(MAX_SEED_NODES).optional()),
+  seed: seedParam(123456789),
+});
+export type SeedQuery = z.infer<typeof seedQuerySchema>;
+
+export const seedRequest = { query: seedQuerySchema };
+
+// ---- Quotes ----
+
+export const quotesSnapshotRequest = {
+  query: z.object({ symbols: csvList }),
+};
+
+export const quotesStartRequest = {
+  query: z.object({
+    rate: queryInt({ min: 1, max: 1000, fallback: 20 }),
+    symbols: csvList.transform((list) => (list.length ? list : undefined)),
+    seed: seedParam(42),
+  }),
+};
+
+// ---- Users ----
+
+// Structured filters on the users list: `filter` holds comma separated
+// `field:op:value` clauses and `match` says whether all or any must hold,
+// e.g. `filter=orderTotal:gte:100,createdAt:lt:2025-01-01&match=all`. The
+// value is everything after the second colon, so timestamps need no escaping.
+export const USER_FILTER_OPS = {
+  createdAt: ["gt", "gte", "lt", "lte"],
+  orderCount: ["eq", "gt", "gte", "lt", "lte"],
+  orderTotal: ["eq", "gt", "gte", "lt", "lte"],
+  emailDomain: ["eq"],
+} as const;
+export type UserFilterField = keyof typeof USER_FILTER_OPS;
+export type FilterOp = (typeof USER_FILTER_OPS)[UserFilterField][number];
+export type UserFilterClause = { field: UserFilterField; op: FilterOp; value: string | number };
+
+export const FILTER_MATCHES = ["all", "any"] as const;
+export type FilterMatch = (typeof FILTER_MATCHES)[number];
+export type UserFilter = { match: FilterMatch; clauses: UserFilterClause[] };
+
+const MAX_FILTER_CLAUSES = 20;
+
+// Dates become full UTC timestamps so they compare like stored createdAt values
+const filterValueSchemas: Record<UserFilterField, z.ZodType<string | number>> = {
+  createdAt: z
+    .union([z.iso.datetime({ offset: true }), z.iso.date()])
+    .transform((v) => new Date(v).toISOString()),
+  orderCount: z.coerce.number().int().nonnegative(),
+  orderTotal: z.coerce.number().nonnegative(),
+  emailDomain: z
+    .string()
+    .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i, { message: "Must be a domain such as example.com" })
+    .transform((v) => v.toLowerCase()),
+};
+
+const userFilterSchema = z
+  .string()
+  .max(2000)
+  .optional()
+  .transform((raw = "", ctx) => {
+    const parts = raw.split(",").map((part) => part.trim()).filter(Boolean);
+    if (parts.length > MAX_FILTER_CLAUSES) {
+      ctx.addIssue({ code: "custom", message: `At most ${MAX_FILTER_CLAUSES} clauses` });
+      return [];
+    }
+
+    const clauses: UserFilterClause[] = [];
+    parts.forEach((part, i) => {
+      const [field, op, ...rest] = part.split(":");
+      const value = rest.join(":");
+      const fail = (message: string) => ctx.addIssue({ code: "custom", message: `Clause ${i + 1} (${part}): ${message}` });
+
+      const fields = Object.keys(USER_FILTER_OPS);
+      if (!fields.includes(field)) return fail(`Unknown field; expected one of ${fields.join(", ")}`);
+      const ops: readonly string[] = USER_FILTER_OPS[field as UserFilterField];
+      if (!ops.includes(op)) return fail(`Unsupported operator; expected one of ${ops.join(", ")}`);
+      if (!value) return fail("Missing value");
+      const parsed = filterValueSchemas[field as UserFilterField].safeParse(value);
+      if (!parsed.success) return fail(parsed.error.issues[0].message);
+      clauses.push({ field: field as UserFilterField, op: op as FilterOp, value: parsed.data });
+    });
+    return clauses;
+  })
+  .describe("Comma separated field:op:value clauses, e.g. orderTotal:gte:100,emailDomain:eq:example.com");
+
+// Free text as the search indexes take it: every word must match a word of
+// the record, in full, as a prefix, or within one or two typos
+const searchTextSchema = z
+  .string()
+  .max(200)
+  .default("")
+  .describe("Words to find; each matches whole words, word prefixes or near misses (one typo from 4 letters, two from 8)");
+
+export const usersQuerySchema = pageQuerySchema.extend({
+  search: searchTextSchema,
+  filter: userFilterSchema,
+  match: z.enum(FILTER_MATCHES).default("all"),
+  sort: userSortSchema,
+  sortBy: userSortKeySchema.default("createdAt"),
+  sortDir: sortDirSchema.default("desc"),
+});
+export type UsersQuery = z.infer<typeof usersQuerySchema>;
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Same filter and sort as the list, without paging
+export const usersExportQuerySchema = usersQuerySchema
+  .pick({ search: true, filter: true, match: true, sort: true, sortBy: true, sortDir: true })
+  .extend({ format: z.enum(EXPORT_FORMATS).default("csv") });
+export type UsersExportQuery = z.infer<typeof usersExportQuerySchema>;
+
+const userFields = {
+  name: z.string().trim().min(1).max(200),
+  email: z.email().max(320),
+};
+
+export const userCreateSchema = z.strictObject(userFields);
+export const userPatchSchema = z.strictObject(userFields).partial().refine(nonEmpty, nonEmptyMessage);
+export type UserCreateBody = z.infer<typeof userCreateSchema>;
+export type UserPatchBody = z.infer<typeof userPatchSchema>;
+
+export const listUsersRequest = { query: usersQuerySchema };
+export const exportUsersRequest = { query: usersExportQuerySchema };
+export const userDetailQuerySchema = z.object({
+  top: queryInt({ min: 1, max: 50, fallback: 5 }).describe("How many products to list in topProducts"),
+});
+export type UserDetailQuery = z.infer<typeof userDetailQuerySchema>;
+
+export const getUserRequest = { params: idParamsSchema, query: userDetailQuerySchema };
+export const userOrdersRequest = { params: idParamsSchema, query: pageQuerySchema };
+export const createUserRequest = { body: userCreateSchema };
+export const replaceUserRequest = { params: idParamsSchema, body: userCreateSchema };
+export const patchUserRequest = { params: idParamsSchema, body: userPatchSchema };
+export const deleteUserRequest = { params: idParamsSchema, query: deleteQuerySchema };
+
+// Bulk actions name their users either by id or as everything a list query
+// matches (minus `exclude`), so "select all matching" needs no id list
+export const MAX_BULK_USERS = 10_000;
+
+const userSelectionFields = {
+  ids: z.array(recordId).min(1).max(MAX_BULK_USERS).optional(),
+  matching: usersQuerySchema.pick({ search: true, filter: true, match: true }).strict().optional(),
+  exclude: z.array(recordId).max(MAX_BULK_USERS).default([]),
+};
+const oneSelection = (body: { ids?: unknown; matching?: unknown }) => (body.ids === undefined) !== (body.matching === undefined);
+const oneSelectionMessage = { message: "Give either ids or matching" };
+
+export const userBulkDeleteSchema = z
+  .strictObject({
+    ...userSelectionFields,
+    // Also delete users that have orders, and their orders
+    cascade: z.boolean().default(false),
+  })
+  .refine(oneSelection, oneSelectionMessage);
+export const userBulkExportSchema = z
+  .strictObject({
+    ...userSelectionFields,
+    ...usersExportQuerySchema.pick({ format: true, sort: true, sortBy: true, sortDir: true }).shape,
+  })
+  .refine(oneSelection, oneSelectionMessage);
+// What a client sends (`filter` still in its string form)
+export type UserBulkDeleteBody = z.input<typeof userBulkDeleteSchema>;
+export type UserBulkExportBody = z.input<typeof userBulkExportSchema>;
+
+export const bulkDeleteUsersRequest = { body: userBulkDeleteSchema };
+export const bulkExportUsersRequest = { body: userBulkExportSchema };
+
+// ---- Products ----
+
+const productFields = {
+  name: z.string().trim().min(1).max(200),
+  price: money,
+};
+
+export const PRODUCT_SORT_KEYS = ["id", "name", "price"] as const;
+export type ProductSortKey = (typeof PRODUCT_SORT_KEYS)[number];
+
+// Offset pages only; `search` matches the product name
+export const productsQuerySchema = pageQuerySchema.omit({ cursor: true }).extend({
+  search: searchTextSchema,
+  sortBy: z.enum(PRODUCT_SORT_KEYS).default("id"),
+  sortDir: sortDirSchema.default("asc"),
+});
+export type ProductsQuery = z.infer<typeof productsQuerySchema>;
+
+export const productCreateSchema = z.strictObject(productFields);
+export const productPatchSchema = z.strictObject(productFields).partial().refine(nonEmpty, nonEmptyMessage);
+export type ProductCreateBody = z.infer<typeof productCreateSchema>;
+export type ProductPatchBody = z.infer<typeof productPatchSchema>;
+
+export const listProductsRequest = { query: productsQuerySchema };
+export const getProductRequest = { params: idParamsSchema };
+export const createProductRequest = { body: productCreateSchema };
+export const replaceProductRequest = { params: idParamsSchema, body: productCreateSchema };
+export const patchProductRequest = { params: idParamsSchema, body: productPatchSchema };
+export const deleteProductRequest = { params: idParamsSchema, query: deleteQuerySchema };
+
+// ---- Orders ----
+
+const orderFields = {
+  userId: recordId,
+  productId: recordId,
+  amount: money.refine((v) => v > 0, { message: "Must be greater than 0" }),
+  // Stored as a full UTC timestamp with milliseconds, so both stores sort and
+  // compare the same string whatever precision was sent
+  createdAt: z.iso
+    .datetime()
+    .transform((v) => new Date(v).toISOString())
+    .optional(),
+};
+
+export const ORDER_SORT_KEYS = ["id", "createdAt", "amount", "userId", "productId"] as const;
+export type OrderSortKey = (typeof ORDER_SORT_KEYS)[number];
+
+// Offset pages only; `search` matches the product name or the user's name or email
+export const ordersQuerySchema = pageQuerySchema.omit({ cursor: true }).extend({
+  search: z.string().max(200).default(""),
+  sortBy: z.enum(ORDER_SORT_KEYS).default("createdAt"),
+  sortDir: sortDirSchema.default("desc"),
+});
+export type OrdersQuery = z.infer<typeof ordersQuerySchema>;
+
+export const orderCreateSchema = z.strictObject(orderFields);
+export const orderPatchSchema = z.strictObject(orderFields).partial().refine(nonEmpty, nonEmptyMessage);
+export type OrderCreateBody = z.infer<typeof orderCreateSchema>;
+export type OrderPatchBody = z.infer<typeof orderPatchSchema>;
+
+export const listOrdersRequest = { query: ordersQuerySchema };
+export const getOrderRequest = { params: idParamsSchema };
+export const createOrderRequest = { body: orderCreateSchema };
+export const replaceOrderRequest = { params: idParamsSchema, body: orderCreateSchema };
+export const patchOrderRequest = { params: idParamsSchema, body: orderPatchSchema };
+export const deleteOrderRequest = { params: idParamsSchema };
+
+// ---- Org tree ----
+
+export const nodeParamsSchema = z.object({ id: z.string().min(1) });
+
+export const nodeSearchQuerySchema = z.object({
+  q: searchTextSchema,
+  limit: queryInt({ min: 1, max: 100, fallback: 100 }),
+});
+export type NodeSearchQuery = z.infer<typeof nodeSearchQuerySchema>;
+
+// Children come a page at a time; `cursor` is a previous page's `nextCursor`
+export const nodeChildrenQuerySchema = z.object({
+  pageSize: queryInt({ min: 1, max: 1000, fallback: 100 }),
+  cursor: z.string().optional(),
+});
+export type NodeChildrenQuery = z.infer<typeof nodeChildrenQuerySchema>;
+
+const nodeFields = {
+  name: z.string().trim().min(1).max(200),
+  // null makes the node a root
+  parentId: z.string().min(1).nullable(),
+};
+
+export const nodeCreateSchema = z.strictObject({ ...nodeFields, parentId: nodeFields.parentId.default(null) });
+// Changing `parentId` moves the node along with its whole subtree
+export const nodePatchSchema = z.strictObject(nodeFields).partial().refine(nonEmpty, nonEmptyMessage);
+export type NodeCreateBody = z.input<typeof nodeCreateSchema>;
+export type NodePatchBody = z.infer<typeof nodePatchSchema>;
+
+// A node with children can only be deleted by saying what happens to them
+export const nodeDeleteQuerySchema = z.object({
+  children: z
+    .enum(["cascade", "rehome"])
+    .optional()
+    .describe("cascade deletes the whole subtree; rehome hands the children to the deleted node's parent"),
+});
+export type NodeDeleteQuery = z.infer<typeof nodeDeleteQuerySchema>;
+
+export const getNodeRequest = { params: nodeParamsSchema };
+export const nodeChildrenRequest = { params: nodeParamsSchema, query: nodeChildrenQuerySchema };
+export const nodeSearchRequest = { query: nodeSearchQuerySchema };
+export const createNodeRequest = { body: nodeCreateSchema };
+export const patchNodeRequest = { params: nodeParamsSchema, body: nodePatchSchema };
+export const deleteNodeRequest = { params: nodeParamsSchema, query: nodeDeleteQuerySchema };
+
+// ---- Search across everything ----
+
+// `limit` caps each group (users, nodes, symbols), not the whole response
+export const globalSearchQuerySchema = z.object({
+  q: searchTextSchema,
+  limit: queryInt({ min: 1, max: 20, fallback: 5 }),
+});
+export type GlobalSearchQuery = z.infer<typeof globalSearchQuerySchema>;
+
+export const globalSearchRequest = { query: globalSearchQuerySchema };
@@ -1,5 +1,309 @@
-export interface User {
-    id: string;
-    name: string;
-    email: string;
-  }
\ No newline at end of file
+import { z } from "zod";
+
+// Shapes the API returns. The backend stores and serves exactly these, so a
+// field change here breaks whichever app still relies on the old shape. The
+// schemas only describe responses (OpenAPI); nothing parses with them.
+
+// ---- Search highlights ----
+
+// Characters [start, end) of a field that matched a search
+export const highlightSchema = z
+  .object({
+    start: z.number().int(),
+    end: z.number().int(),
+  })
+  .meta({ id: "Highlight" });
+export type Highlight = z.infer<typeof highlightSchema>;
+
+// Matched ranges by field name, in text order; fields with none are left out
+export const highlightsSchema = z.record(z.string(), z.array(highlightSchema)).meta({ id: "Highlights" });
+export type Highlights = z.infer<typeof highlightsSchema>;
+
+// ---- Records ----
+
+export const userSchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    email: z.string(),
+    createdAt: z.iso.datetime(),
+  })
+  .meta({ id: "User" });
+export type User = z.infer<typeof userSchema>;
+
+// A user as listed: with aggregates over their orders
+export const userRowSchema = userSchema
+  .extend({
+    orderCount: z.number().int(),
+    orderTotal: z.number(),
+  })
+  .meta({ id: "UserRow" });
+export type UserRow = z.infer<typeof userRowSchema>;
+
+// A user in the list; with a `search`, also the ranges of name and email
+// that matched it
+export const userListRowSchema = userRowSchema
+  .extend({ highlights: highlightsSchema.optional() })
+  .meta({ id: "UserListRow" });
+export type UserListRow = z.infer<typeof userListRowSchema>;
+
+export const productSchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    price: z.number(),
+  })
+  .meta({ id: "Product" });
+export type Product = z.infer<typeof productSchema>;
+
+export const orderSchema = z
+  .object({
+    id: z.number().int(),
+    userId: z.number().int(),
+    productId: z.number().int(),
+    amount: z.number(),
+    createdAt: z.iso.datetime(),
+  })
+  .meta({ id: "Order" });
+export type Order = z.infer<typeof orderSchema>;
+
+// An order as listed under its user, with the product's current name and
+// price (null when the product no longer exists)
+export const userOrderSchema = orderSchema
+  .extend({
+    productName: z.string().nullable(),
+    productPrice: z.number().nullable(),
+  })
+  .meta({ id: "UserOrder" });
+export type UserOrder = z.infer<typeof userOrderSchema>;
+
+// An order as listed by GET /api/orders: also with its user's name (null when
+// the user no longer exists)
+export const orderRowSchema = userOrderSchema
+  .extend({
+    userName: z.string().nullable(),
+  })
+  .meta({ id: "OrderRow" });
+export type OrderRow = z.infer<typeof orderRowSchema>;
+
+// ---- User detail ----
+
+export const topProductSchema = z
+  .object({
+    productId: z.number().int(),
+    productName: z.string().nullable(),
+    orderCount: z.number().int(),
+    total: z.number(),
+  })
+  .meta({ id: "TopProduct" });
+export type TopProduct = z.infer<typeof topProductSchema>;
+
+// Spend in one calendar month (UTC), e.g. "2025-03"
+export const monthlySpendSchema = z
+  .object({
+    month: z.string(),
+    orderCount: z.number().int(),
+    total: z.number(),
+  })
+  .meta({ id: "MonthlySpend" });
+export type MonthlySpend = z.infer<typeof monthlySpendSchema>;
+
+// GET /api/users/:id: the listed row plus lifetime figures over the user's
+// orders. Products are ranked by total spend; months without orders are left
+// out of monthlySpend, which runs oldest first.
+export const userDetailSchema = userRowSchema
+  .extend({
+    averageOrder: z.number(),
+    firstOrderAt: z.iso.datetime().nullable(),
+    lastOrderAt: z.iso.datetime().nullable(),
+    topProducts: z.array(topProductSchema),
+    monthlySpend: z.array(monthlySpendSchema),
+  })
+  .meta({ id: "UserDetail" });
+export type UserDetail = z.infer<typeof userDetailSchema>;
+
+// ---- Org tree ----
+
+export const nodeSchema = z
+  .object({
+    id: z.string(),
+    parentId: z.string().nullable(),
+    name: z.string(),
+    hasChildren: z.boolean(),
+  })
+  .meta({ id: "Node" });
+export type Node = z.infer<typeof nodeSchema>;
+
+// One page of a node's children, in sibling order. `total` counts them all;
+// `nextCursor` is null on the last page.
+export const nodeChildrenPageSchema = z
+  .object({
+    items: z.array(nodeSchema),
+    total: z.number().int(),
+    nextCursor: z.string().nullable(),
+  })
+  .meta({ id: "NodeChildrenPage" });
+export type NodeChildrenPage = z.infer<typeof nodeChildrenPageSchema>;
+
+export const nodePathEntrySchema = z.object({ id: z.string(), name: z.string() });
+export type NodePathEntry = z.infer<typeof nodePathEntrySchema>;
+
+// A node with where it sits: its path from the root (inclusive) and how many
+// nodes its subtree holds below it
+export const nodeDetailSchema = nodeSchema
+  .extend({
+    path: z.array(nodePathEntrySchema),
+    descendantCount: z.number().int(),
+  })
+  .meta({ id: "NodeDetail" });
+export type NodeDetail = z.infer<typeof nodeDetailSchema>;
+
+// A search hit with its path from the root (inclusive), its relevance (higher
+// is better; results come best first) and the ranges of `name` that matched
+export const searchResultSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    path: z.array(nodePathEntrySchema),
+    score: z.number(),
+    highlights: highlightsSchema,
+  })
+  .meta({ id: "SearchResult" });
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+// ---- Quotes ----
+
+export const quoteTickSchema = z
+  .object({
+    symbol: z.string(),
+    price: z.number(),
+    ts: z.iso.datetime(),
+  })
+  .meta({ id: "QuoteTick" });
+export type QuoteTick = z.infer<typeof quoteTickSchema>;
+
+// A symbol matching a search, with its latest tick (null before the first)
+export const symbolSearchHitSchema = z
+  .object({
+    symbol: z.string(),
+    score: z.number(),
+    highlights: highlightsSchema,
+    quote: quoteTickSchema.nullable(),
+  })
+  .meta({ id: "SymbolSearchHit" });
+export type SymbolSearchHit = z.infer<typeof symbolSearchHitSchema>;
+
+// GET /api/quotes/snapshot; null for symbols that have not ticked yet
+export const quotesSnapshotSchema = z.record(z.string(), quoteTickSchema.nullable());
+export type QuotesSnapshot = z.infer<typeof quotesSnapshotSchema>;
+
+// Pushed over the /ws socket after a subscribe
+export type QuotesMessage = { type: "quotes"; items: QuoteTick[] };
+
+// ---- Pagination ----
+
+// List endpoints in offset mode (`page`)
+export type Page<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export const pageSchema = (item: z.ZodType) =>
+  z.object({
+    items: z.array(item),
+    total: z.number().int(),
+    page: z.number().int(),
+    pageSize: z.number().int(),
+  });
+
+// List endpoints in keyset mode (`cursor`)
+export type CursorPageResponse<T> = {
+  items: T[];
+  total: number;
+  pageSize: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+export const cursorPageSchema = (item: z.ZodType) =>
+  z.object({
+    items: z.array(item),
+    total: z.number().int(),
+    pageSize: z.number().int(),
+    nextCursor: z.string().nullable(),
+    prevCursor: z.string().nullable(),
+  });
+
+// ---- Search across everything ----
+
+// One group of a search: the best `items` and how many matched in all
+export type SearchHits<T> = {
+  items: T[];
+  total: number;
+};
+
+export const searchHitsSchema = (item: z.ZodType) =>
+  z.object({
+    items: z.array(item),
+    total: z.number().int(),
+  });
+
+// A user matching a search, with its relevance and the matched ranges of
+// name and email
+export const userSearchHitSchema = userRowSchema
+  .extend({ score: z.number(), highlights: highlightsSchema })
+  .meta({ id: "UserSearchHit" });
+export type UserSearchHit = z.infer<typeof userSearchHitSchema>;
+
+// GET /api/search/all: each group best first
+export const globalSearchResultSchema = z
+  .object({
+    users: searchHitsSchema(userSearchHitSchema),
+    nodes: searchHitsSchema(searchResultSchema),
+    symbols: searchHitsSchema(symbolSearchHitSchema),
+  })
+  .meta({ id: "GlobalSearchResult" });
+export type GlobalSearchResult = {
+  users: SearchHits<UserSearchHit>;
+  nodes: SearchHits<SearchResult>;
+  symbols: SearchHits<SymbolSearchHit>;
+};
+
+// ---- Bulk actions ----
+
+// Outcome for one user of a bulk action; `message` says why it was skipped
+export const bulkItemResultSchema = z
+  .object({
+    id: z.number().int(),
+    status: z.enum(["ok", "not_found", "conflict"]),
+    message: z.string().optional(),
+  })
+  .meta({ id: "BulkItemResult" });
+export type BulkItemResult = z.infer<typeof bulkItemResultSchema>;
+
+export const bulkResultSchema = z
+  .object({
+    results: z.array(bulkItemResultSchema),
+    succeeded: z.number().int(),
+    failed: z.number().int(),
+  })
+  .meta({ id: "BulkResult" });
+export type BulkResult = z.infer<typeof bulkResultSchema>;
+
+// ---- Errors ----
+
+export type FieldIssue = { path: string; message: string };
+
+// Body of every non-2xx response
+export const apiErrorResponseSchema = z
+  .object({
+    error: z.object({
+      code: z.string(),
+      message: z.string(),
+      details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+    }),
+  })
+  .meta({ id: "ApiError" });
+export type ApiErrorResponse = z.infer<typeof apiErrorResponseSchema>;